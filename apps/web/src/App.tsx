@@ -1,9 +1,92 @@
 ﻿import { useEffect, useRef, useState } from "react";
-import { PDFDocument, StandardFonts, degrees, rgb } from "pdf-lib";
+import { PDFDocument, PDFImage, rgb } from "pdf-lib";
 import JSZip from "jszip";
 import { Turnstile } from "@marsidev/react-turnstile";
-import { BrowserRouter, Link, Route, Routes } from "react-router-dom";
+import {
+  BrowserRouter,
+  Link,
+  Navigate,
+  Route,
+  Routes,
+  useNavigate,
+  useParams,
+} from "react-router-dom";
 import Home from "./pages/Home";
+import { createPdfTextLayout } from "./lib/pdfLayout";
+import {
+  COMMON_LOCALES,
+  describeTimeZone,
+  formatDate,
+  formatDateTime,
+  formatMoney,
+  getFormatSample,
+  getLocalLocale,
+  resolveOutputFormat,
+  type OutputFormat,
+} from "./lib/formatting";
+import {
+  isValidEmail,
+  isValidIpAddress,
+  isValidUrl,
+  validateAmount,
+  validateCurrency,
+  validateTrackingNumber,
+} from "./lib/validation";
+import {
+  COMMON_TIME_ZONES,
+  addDays,
+  daysBetween,
+  getLocalTimeZone,
+  getTodayDate,
+  isValidDate,
+  isValidTime,
+  isValidTimeZone,
+  zonedDateTimeToUtc,
+} from "./lib/dateTime";
+import {
+  createTextRedactor,
+  maskEmail,
+  maskIpAddress,
+  type RedactionOptions,
+} from "./lib/redaction";
+import {
+  applyArchivalConformance,
+  applyDocumentMetadata,
+  flattenImage,
+  type PdfDocumentMetadata,
+} from "./lib/pdfMetadata";
+import {
+  addInternalLink,
+  addOutline,
+  type PdfBookmark,
+} from "./lib/pdfNavigation";
+import {
+  IMAGE_OPTIMIZATION_STEPS,
+  recompressImages,
+} from "./lib/imageOptimizer";
+import {
+  splitPdfIntoParts,
+  type PdfPart,
+  type PdfSection,
+} from "./lib/pdfSplit";
+import { embedLogo, isSvgFile, parseHexColor } from "./lib/branding";
+import {
+  deleteAllDrafts,
+  deleteDraft,
+  listDrafts,
+  loadDraft,
+  saveDraft,
+} from "./lib/draftStore";
+import {
+  formatManifestText,
+  hashFiles,
+  sha256Hex,
+} from "./lib/integrity";
+import {
+  isEmailFile,
+  parseEmailFile,
+  type ParsedEmail,
+} from "./lib/emailImport";
 
 const DISPUTE_REASONS = [
   { value: "fraud", label: "Fraud/Unauthorized" },
@@ -19,13 +102,77 @@ type DisputeReason = (typeof DISPUTE_REASONS)[number]["value"];
 const getReasonLabel = (reason: DisputeReason) =>
   DISPUTE_REASONS.find((item) => item.value === reason)?.label ?? "Other";
 
+type TimelineCategory =
+  | "order"
+  | "payment"
+  | "fulfillment"
+  | "delivery"
+  | "contact"
+  | "refund"
+  | "login";
+
+const TIMELINE_CATEGORIES: Array<{ value: TimelineCategory; label: string }> =
+  [
+    { value: "order", label: "Order" },
+    { value: "payment", label: "Payment" },
+    { value: "fulfillment", label: "Fulfillment" },
+    { value: "delivery", label: "Delivery" },
+    { value: "contact", label: "Customer contact" },
+    { value: "refund", label: "Refund" },
+    { value: "login", label: "Account login" },
+  ];
+
+const getTimelineCategoryLabel = (category: TimelineCategory) =>
+  TIMELINE_CATEGORIES.find((item) => item.value === category)?.label ??
+  "Other";
+
+type TimelineEntry = {
+  id: string;
+  date: string;
+  time: string;
+  timeZone: string;
+  category: TimelineCategory;
+  source: string;
+  description: string;
+  attachmentIds: string[];
+};
+
+type TimelineDraft = Omit<TimelineEntry, "id" | "attachmentIds">;
+
+type CustomEvidenceDraft = {
+  label: string;
+  tooltip: string;
+  ruleKind: CustomEvidenceRule["kind"];
+  field: TextFieldKey;
+  tag: string;
+  category: TimelineCategory;
+  priorities: CustomEvidenceEntry["priorities"];
+};
+
+const initialCustomEvidenceDraft: CustomEvidenceDraft = {
+  label: "",
+  tooltip: "",
+  ruleKind: "timeline_category",
+  field: "customer_email",
+  tag: "",
+  category: "login",
+  priorities: {},
+};
+
 type FormState = {
   merchant_name: string;
   order_id: string;
+  processor_case_number: string;
+  card_network: CardNetwork | "";
+  reason_code: string;
+  dispute_opened_date: string;
+  response_due_date: string;
   amount: string;
   currency: string;
+  locale: string;
+  time_zone: string;
   dispute_reason: DisputeReason;
-  timeline: string[];
+  timeline: TimelineEntry[];
   customer_email: string;
   billing_address: string;
   ip_address: string;
@@ -35,17 +182,100 @@ type FormState = {
   policy_url: string;
   refund_policy_excerpt: string;
   customer_communication_notes: string;
+  correspondence: ParsedEmail[];
+  rebuttal_letter: string;
 };
 
 type AttachmentItem = {
   id: string;
   file: File;
   note: string;
+  tags: string[];
+};
+
+type BrandingProfile = {
+  logo: File | null;
+  accentColor: string;
+  companyAddress: string;
+  supportContact: string;
+  watermark: "default" | "custom" | "none";
+  watermarkText: string;
+  showToolCredit: boolean;
 };
 
 type PdfStats = {
   sizeBytes: number;
   pageCount: number;
+  partSizes: number[];
+};
+
+type ExportProfileId =
+  | "generic"
+  | "stripe"
+  | "paypal"
+  | "shopify_payments"
+  | "adyen"
+  | "braintree";
+
+type ExportProfile = {
+  id: ExportProfileId;
+  label: string;
+  enforceLimits: boolean;
+  uploadMode: "packet" | "combined" | "separate";
+  maxPdfBytes: number;
+  maxPdfPages: number | null;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  acceptedKinds: AttachmentKind[];
+  maxTextLength: number | null;
+  maxFilenameLength: number;
+};
+
+type ExportIssue = {
+  level: "error" | "warning";
+  category: "size" | "pages" | "content" | "fields";
+  message: string;
+};
+
+type ValidationRuleId =
+  | "amount"
+  | "currency"
+  | "ip_address"
+  | "email"
+  | "url"
+  | "tracking_number"
+  | "dates";
+
+type ValidationLevel = "error" | "warning" | "off";
+
+const VALIDATION_RULES: Array<{
+  id: ValidationRuleId;
+  label: string;
+  defaultLevel: ValidationLevel;
+}> = [
+  { id: "amount", label: "Amount", defaultLevel: "error" },
+  { id: "currency", label: "Currency", defaultLevel: "error" },
+  { id: "ip_address", label: "IP address", defaultLevel: "warning" },
+  { id: "email", label: "Customer email", defaultLevel: "warning" },
+  { id: "url", label: "Policy URL", defaultLevel: "warning" },
+  { id: "tracking_number", label: "Tracking number", defaultLevel: "warning" },
+  { id: "dates", label: "Dates", defaultLevel: "warning" },
+];
+
+const VALIDATION_STORAGE_KEY = "disputeshield.validationRules";
+
+type FieldIssue = {
+  rule: ValidationRuleId;
+  field: TextFieldKey;
+  message: string;
+};
+
+type OptimizationReport = {
+  pdfBeforeBytes: number;
+  pdfAfterBytes: number;
+  images: Array<{ id: string; beforeBytes: number; afterBytes: number }>;
+  oversizedIds: string[];
+  fits: boolean;
 };
 
 type EvidencePriority = "critical" | "recommended";
@@ -53,14 +283,23 @@ type EvidencePriority = "critical" | "recommended";
 type EvidenceCatalogEntry = {
   label: string;
   tooltip: string;
+  action: string;
   isPresent: (form: FormState, attachments: AttachmentItem[]) => boolean;
+  credit?: (form: FormState, attachments: AttachmentItem[]) => number;
 };
 
 const initialState: FormState = {
   merchant_name: "",
   order_id: "",
+  processor_case_number: "",
+  card_network: "",
+  reason_code: "",
+  dispute_opened_date: "",
+  response_due_date: "",
   amount: "",
   currency: "USD",
+  locale: "",
+  time_zone: "",
   dispute_reason: DISPUTE_REASONS[0].value,
   timeline: [],
   customer_email: "",
@@ -72,45 +311,253 @@ const initialState: FormState = {
   policy_url: "",
   refund_policy_excerpt: "",
   customer_communication_notes: "",
+  correspondence: [],
+  rebuttal_letter: "",
 };
 
-const SHOW_BRANDING_FOOTER = true;
-const SHOW_DIAGONAL_WATERMARK = true;
-const PDF_SIZE_WARNING_BYTES = 2_500_000;
-const PDF_PAGE_WARNING_COUNT = 20;
-const ATTACHMENTS_WARNING_BYTES = 10 * 1024 * 1024;
+const createTimelineDraft = (): TimelineDraft => ({
+  date: "",
+  time: "",
+  timeZone: getLocalTimeZone(),
+  category: "order",
+  source: "",
+  description: "",
+});
 
-const inputClassName =
-  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-200";
+type CaseStatus = "draft" | "submitted" | "won" | "lost" | "accepted";
+
+const CASE_STATUSES: Array<{ value: CaseStatus; label: string }> = [
+  { value: "draft", label: "Draft" },
+  { value: "submitted", label: "Submitted" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+  { value: "accepted", label: "Accepted" },
+];
+
+const getCaseStatusLabel = (status: CaseStatus) =>
+  CASE_STATUSES.find((item) => item.value === status)?.label ?? status;
+
+type CaseDetails = {
+  createdAt: string;
+  status: CaseStatus;
+  submittedDate: string;
+  resolvedDate: string;
+  outcomeNotes: string;
+};
+
+type CaseRecord = CaseDetails & {
+  id: string;
+  savedAt: string;
+  form: FormState;
+  timelineDraft: TimelineDraft;
+  attachments: AttachmentItem[];
+};
+
+const createCaseRecord = (id: string): CaseRecord => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    createdAt: now,
+    savedAt: now,
+    status: "draft",
+    submittedDate: "",
+    resolvedDate: "",
+    outcomeNotes: "",
+    form: initialState,
+    timelineDraft: createTimelineDraft(),
+    attachments: [],
+  };
+};
+
+const getCaseDetails = (record: CaseRecord): CaseDetails => ({
+  createdAt: record.createdAt,
+  status: record.status,
+  submittedDate: record.submittedDate,
+  resolvedDate: record.resolvedDate,
+  outcomeNotes: record.outcomeNotes,
+});
+
+const hasSubmittedDate = (status: CaseStatus) =>
+  status === "submitted" || status === "won" || status === "lost";
+
+const hasResolvedDate = (status: CaseStatus) =>
+  status === "won" || status === "lost" || status === "accepted";
+
+// Keeps a date the new status still allows (filling it with today when it is
+// missing) and clears the ones it does not, so a reopened case loses its
+// outcome date and a draft never reads as submitted.
+const applyCaseStatus = <T extends CaseDetails>(
+  details: T,
+  status: CaseStatus,
+  today: string,
+): T => ({
+  ...details,
+  status,
+  submittedDate: hasSubmittedDate(status) ? details.submittedDate || today : "",
+  resolvedDate: hasResolvedDate(status) ? details.resolvedDate || today : "",
+});
+
+type DeadlineFilter = "all" | "overdue" | "due_soon" | "later" | "none";
 
-const wrapText = (text: string, maxLength: number) => {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  if (words.length === 0) {
-    return [""];
+const DEADLINE_FILTERS: Array<{ value: DeadlineFilter; label: string }> = [
+  { value: "all", label: "Any deadline" },
+  { value: "overdue", label: "Open and overdue" },
+  { value: "due_soon", label: "Open, due within 7 days" },
+  { value: "later", label: "Open, due later" },
+  { value: "none", label: "No deadline" },
+];
+
+const matchesDeadlineFilter = (
+  record: CaseRecord,
+  daysUntilDue: number | null,
+  filter: DeadlineFilter,
+) => {
+  if (filter === "all") {
+    return true;
+  }
+  if (filter === "none") {
+    return daysUntilDue === null;
   }
+  if (record.status !== "draft" || daysUntilDue === null) {
+    return false;
+  }
+  return filter === "overdue"
+    ? daysUntilDue < 0
+    : filter === "due_soon"
+      ? daysUntilDue >= 0 && daysUntilDue <= 7
+      : daysUntilDue > 7;
+};
 
-  const lines: string[] = [];
-  let line = "";
+const toCaseRecord = (id: string, stored: Partial<CaseRecord>) => {
+  const record = createCaseRecord(id);
+  return {
+    ...record,
+    ...stored,
+    id,
+    createdAt: stored.createdAt ?? stored.savedAt ?? record.createdAt,
+    status: CASE_STATUSES.some((item) => item.value === stored.status)
+      ? (stored.status as CaseStatus)
+      : "draft",
+    form: { ...initialState, ...stored.form },
+  };
+};
 
-  for (const word of words) {
-    const candidate = line ? `${line} ${word}` : word;
-    if (candidate.length > maxLength) {
-      if (line) {
-        lines.push(line);
+// Builds before the case list kept a single draft under this key.
+const LEGACY_DRAFT_ID = "current";
+
+const loadCaseRecords = async () => {
+  const entries = await listDrafts<Partial<CaseRecord>>();
+  return Promise.all(
+    entries.map(async ({ id, draft }) => {
+      if (id !== LEGACY_DRAFT_ID) {
+        return toCaseRecord(id, draft);
       }
-      line = word;
-    } else {
-      line = candidate;
-    }
-  }
+      const record = toCaseRecord(createId(), draft);
+      await saveDraft(record.id, record);
+      await deleteDraft(LEGACY_DRAFT_ID);
+      return record;
+    }),
+  );
+};
 
-  if (line) {
-    lines.push(line);
-  }
+const initialBranding: BrandingProfile = {
+  logo: null,
+  accentColor: "#0f172a",
+  companyAddress: "",
+  supportContact: "",
+  watermark: "default",
+  watermarkText: "",
+  showToolCredit: true,
+};
 
-  return lines;
+const DEFAULT_WATERMARK_TEXT = "DISPUTESHIELD — EVIDENCE PACKET";
+
+// Limits follow each processor's published dispute-evidence guidance and
+// change from time to time; the generic profile only warns.
+const EXPORT_PROFILES: Record<ExportProfileId, ExportProfile> = {
+  generic: {
+    id: "generic",
+    label: "Generic (bank or issuer upload)",
+    enforceLimits: false,
+    uploadMode: "packet",
+    maxPdfBytes: 2_500_000,
+    maxPdfPages: 20,
+    maxFileBytes: 10 * 1024 * 1024,
+    maxTotalBytes: 10 * 1024 * 1024,
+    acceptedKinds: ["pdf", "png", "jpeg", "other"],
+    maxTextLength: null,
+    maxFilenameLength: 120,
+  },
+  stripe: {
+    id: "stripe",
+    label: "Stripe",
+    enforceLimits: true,
+    uploadMode: "combined",
+    maxPdfBytes: 4_500_000,
+    maxPdfPages: 50,
+    maxFileBytes: 4_500_000,
+    maxTotalBytes: 4_500_000,
+    acceptedKinds: ["pdf", "png", "jpeg"],
+    maxTextLength: 20_000,
+    maxFilenameLength: 100,
+  },
+  paypal: {
+    id: "paypal",
+    label: "PayPal",
+    enforceLimits: true,
+    uploadMode: "separate",
+    maxPdfBytes: 10 * 1024 * 1024,
+    maxPdfPages: null,
+    maxFileBytes: 10 * 1024 * 1024,
+    maxTotalBytes: 50 * 1024 * 1024,
+    acceptedKinds: ["pdf", "png", "jpeg"],
+    maxTextLength: 2_000,
+    maxFilenameLength: 100,
+  },
+  shopify_payments: {
+    id: "shopify_payments",
+    label: "Shopify Payments",
+    enforceLimits: true,
+    uploadMode: "combined",
+    maxPdfBytes: 4 * 1024 * 1024,
+    maxPdfPages: 50,
+    maxFileBytes: 4 * 1024 * 1024,
+    maxTotalBytes: 4 * 1024 * 1024,
+    acceptedKinds: ["pdf", "png", "jpeg"],
+    maxTextLength: 20_000,
+    maxFilenameLength: 100,
+  },
+  adyen: {
+    id: "adyen",
+    label: "Adyen",
+    enforceLimits: true,
+    uploadMode: "separate",
+    maxPdfBytes: 2 * 1024 * 1024,
+    maxPdfPages: null,
+    maxFileBytes: 2 * 1024 * 1024,
+    maxTotalBytes: 20 * 1024 * 1024,
+    acceptedKinds: ["pdf", "jpeg"],
+    maxTextLength: null,
+    maxFilenameLength: 64,
+  },
+  braintree: {
+    id: "braintree",
+    label: "Braintree",
+    enforceLimits: true,
+    uploadMode: "separate",
+    maxPdfBytes: 4 * 1024 * 1024,
+    maxPdfPages: null,
+    maxFileBytes: 4 * 1024 * 1024,
+    maxTotalBytes: 10 * 1024 * 1024,
+    acceptedKinds: ["pdf", "png", "jpeg"],
+    maxTextLength: 4_000,
+    maxFilenameLength: 100,
+  },
 };
 
+const inputClassName =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-200";
+
 const normalizeSentenceCase = (text: string) => {
   const trimmed = text.trim();
   if (!trimmed) {
@@ -134,263 +581,1922 @@ const normalizeSentenceCase = (text: string) => {
   );
 };
 
-const normalizeTimelineEvent = (event: string) => {
-  const trimmed = event.trim();
-  if (!trimmed) {
-    return "";
-  }
+const hasValue = (value: string) => value.trim().length > 0;
 
-  const match = trimmed.match(/^(\d{4}-\d{2}-\d{2})(\s*(?:-|:)\s*)(.+)$/);
-  if (match) {
-    const [, date, separator, description] = match;
-    return `${date}${separator}${normalizeSentenceCase(description)}`;
-  }
+const getOutputFormat = (form: FormState) =>
+  resolveOutputFormat(form.locale, form.time_zone);
 
-  return normalizeSentenceCase(trimmed);
-};
+const hasTimelineCategory = (form: FormState, category: TimelineCategory) =>
+  form.timeline.some((entry) => entry.category === category);
 
-const hasValue = (value: string) => value.trim().length > 0;
+const getDeliveryDate = (form: FormState) =>
+  form.delivery_date.trim() ||
+  form.timeline.find((entry) => entry.category === "delivery")?.date ||
+  "";
 
 const EVIDENCE_CATALOG = {
   proof_delivery: {
     label: "Proof of delivery",
     tooltip: "Tracking + carrier or delivery confirmation date.",
+    action: "Add the carrier, tracking number, and delivery confirmation date.",
     isPresent: (form: FormState) =>
       (hasValue(form.tracking_number) && hasValue(form.carrier)) ||
-      hasValue(form.delivery_date),
+      hasValue(form.delivery_date) ||
+      hasTimelineCategory(form, "delivery"),
+    credit: (form: FormState) => {
+      const shipped = hasValue(form.tracking_number) && hasValue(form.carrier);
+      const delivered =
+        hasValue(form.delivery_date) || hasTimelineCategory(form, "delivery");
+      return shipped && delivered ? 1 : delivered ? 0.7 : 0.6;
+    },
   },
   tracking_details: {
     label: "Tracking details",
     tooltip: "Carrier tracking number for shipment evidence.",
+    action: "Add the carrier tracking number.",
     isPresent: (form: FormState) => hasValue(form.tracking_number),
   },
   carrier_info: {
     label: "Carrier confirmation",
     tooltip: "Carrier name or service used for fulfillment.",
+    action: "Name the carrier that shipped the order.",
     isPresent: (form: FormState) => hasValue(form.carrier),
   },
   delivery_date: {
     label: "Delivery confirmation date",
     tooltip: "Date the carrier marked the package delivered.",
-    isPresent: (form: FormState) => hasValue(form.delivery_date),
+    action: "Enter the date the carrier marked the package delivered.",
+    isPresent: (form: FormState) =>
+      hasValue(form.delivery_date) || hasTimelineCategory(form, "delivery"),
+    credit: (form: FormState) => (hasValue(form.delivery_date) ? 1 : 0.8),
   },
   authorization_signals: {
     label: "Authorization signals",
-    tooltip: "Billing address, IP, or customer email match.",
+    tooltip: "Billing address, IP, customer email, or account login.",
+    action:
+      "Add more signals: billing address, IP address, email, or a login event.",
     isPresent: (form: FormState) =>
       hasValue(form.billing_address) ||
       hasValue(form.ip_address) ||
-      hasValue(form.customer_email),
+      hasValue(form.customer_email) ||
+      hasTimelineCategory(form, "login"),
+    credit: (form: FormState) => {
+      const signals = [
+        hasValue(form.billing_address),
+        hasValue(form.ip_address),
+        hasValue(form.customer_email),
+        hasTimelineCategory(form, "login"),
+      ].filter(Boolean).length;
+      return signals >= 3 ? 1 : signals === 2 ? 0.8 : 0.5;
+    },
   },
   billing_address: {
     label: "Billing address match",
     tooltip: "Billing address captured at checkout.",
+    action: "Add the billing address captured at checkout.",
     isPresent: (form: FormState) => hasValue(form.billing_address),
   },
   ip_address: {
     label: "IP address match",
     tooltip: "IP captured during checkout or account login.",
+    action: "Add the IP address captured at checkout.",
     isPresent: (form: FormState) => hasValue(form.ip_address),
   },
   customer_email: {
     label: "Customer email match",
     tooltip: "Email captured at checkout.",
+    action: "Add the email address the customer used at checkout.",
     isPresent: (form: FormState) => hasValue(form.customer_email),
   },
   policies: {
     label: "Refund/cancellation policy",
     tooltip: "Published policy URL or excerpt.",
+    action: "Provide both the policy URL and the relevant policy excerpt.",
     isPresent: (form: FormState) =>
       hasValue(form.policy_url) || hasValue(form.refund_policy_excerpt),
+    credit: (form: FormState) =>
+      hasValue(form.policy_url) && hasValue(form.refund_policy_excerpt)
+        ? 1
+        : 0.6,
   },
   refund_policy_excerpt: {
     label: "Policy excerpt",
     tooltip: "Relevant policy text for the dispute reason.",
+    action: "Quote the section of your policy that applies.",
     isPresent: (form: FormState) => hasValue(form.refund_policy_excerpt),
   },
   policy_url: {
     label: "Policy URL",
     tooltip: "Link to your published policy page.",
+    action: "Link to your published policy page.",
     isPresent: (form: FormState) => hasValue(form.policy_url),
   },
   customer_comms: {
     label: "Customer communications",
     tooltip: "Emails, chats, or tickets acknowledging the order.",
-    isPresent: (form: FormState) => hasValue(form.customer_communication_notes),
+    action: "Import the email thread with the customer.",
+    isPresent: (form: FormState) =>
+      hasValue(form.customer_communication_notes) ||
+      form.correspondence.length > 0 ||
+      hasTimelineCategory(form, "contact"),
+    credit: (form: FormState) => (form.correspondence.length > 0 ? 1 : 0.6),
   },
   timeline: {
     label: "Timeline of events",
     tooltip: "Key order, fulfillment, and delivery milestones.",
+    action: "Add at least three dated timeline events.",
     isPresent: (form: FormState) => form.timeline.length > 0,
+    credit: (form: FormState) => (form.timeline.length >= 3 ? 1 : 0.6),
   },
   attachments: {
     label: "Supporting attachments",
-    tooltip: "Screenshots, receipts, tracking scans, or files.",
+    tooltip: "Screenshots, receipts, or scans tagged with what they show.",
+    action: "Attach receipts, tracking scans, or screenshots and tag them.",
     isPresent: (_form: FormState, attachments: AttachmentItem[]) =>
-      attachments.length > 0,
+      attachments.some((attachment) => attachment.tags.length > 0),
+    credit: (_form: FormState, attachments: AttachmentItem[]) =>
+      attachments.filter((attachment) => attachment.tags.length > 0).length > 1
+        ? 1
+        : 0.7,
   },
 } satisfies Record<string, EvidenceCatalogEntry>;
 
 type EvidenceId = keyof typeof EVIDENCE_CATALOG;
 
+const ATTACHMENT_TAGS: Array<{
+  value: string;
+  label: string;
+  satisfies: EvidenceId[];
+}> = [
+  {
+    value: "tracking_screenshot",
+    label: "Tracking screenshot",
+    satisfies: ["tracking_details", "carrier_info"],
+  },
+  {
+    value: "delivery_photo",
+    label: "Delivery photo",
+    satisfies: ["proof_delivery", "delivery_date"],
+  },
+  {
+    value: "signed_receipt",
+    label: "Signed receipt",
+    satisfies: ["proof_delivery", "delivery_date"],
+  },
+  { value: "invoice", label: "Invoice", satisfies: ["billing_address"] },
+  {
+    value: "policy_screenshot",
+    label: "Policy screenshot",
+    satisfies: ["policies", "policy_url"],
+  },
+  { value: "chat_log", label: "Chat log", satisfies: ["customer_comms"] },
+  {
+    value: "avs_cvv_result",
+    label: "AVS/CVV result",
+    satisfies: ["authorization_signals", "billing_address"],
+  },
+  {
+    value: "login_log",
+    label: "Login log",
+    satisfies: ["authorization_signals", "ip_address"],
+  },
+  {
+    value: "checkout_record",
+    label: "Checkout record",
+    satisfies: ["customer_email", "billing_address", "ip_address"],
+  },
+  { value: "product_photo", label: "Product photo", satisfies: [] },
+];
+
+const getAttachmentTagLabel = (tag: string) =>
+  ATTACHMENT_TAGS.find((item) => item.value === tag)?.label ?? `#${tag}`;
+
+const getAttachmentCategory = (attachment: AttachmentItem) =>
+  ATTACHMENT_TAGS.find((item) => attachment.tags.includes(item.value))
+    ?.value ??
+  attachment.tags[0] ??
+  null;
+
+const groupAttachmentsByCategory = (attachments: AttachmentItem[]) => {
+  const groups = new Map<string | null, number[]>();
+  attachments.forEach((attachment, index) => {
+    const category = getAttachmentCategory(attachment);
+    groups.set(category, [...(groups.get(category) ?? []), index]);
+  });
+  const rank = (category: string | null) => {
+    if (category === null) {
+      return ATTACHMENT_TAGS.length + 1;
+    }
+    const index = ATTACHMENT_TAGS.findIndex((item) => item.value === category);
+    return index === -1 ? ATTACHMENT_TAGS.length : index;
+  };
+  return [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([category, indexes]) => ({
+      category,
+      label: category === null ? "Untagged" : getAttachmentTagLabel(category),
+      indexes,
+    }));
+};
+
+const isSatisfiedByAttachmentTags = (
+  id: EvidenceId,
+  attachments: AttachmentItem[],
+) =>
+  attachments.some((attachment) =>
+    ATTACHMENT_TAGS.some(
+      (tag) => tag.satisfies.includes(id) && attachment.tags.includes(tag.value),
+    ),
+  );
+
 type EvidenceItem = {
-  id: EvidenceId;
+  id: string;
   label: string;
   tooltip: string;
   priority: EvidencePriority;
   present: boolean;
+  weight: number;
+  credit: number;
+  action: string;
+};
+
+const PRIORITY_WEIGHTS: Record<EvidencePriority, number> = {
+  critical: 20,
+  recommended: 10,
 };
 
 const REASON_EVIDENCE_MAP: Record<
   DisputeReason,
-  { items: Array<{ id: EvidenceId; priority: EvidencePriority }> }
+  {
+    items: Array<{
+      id: EvidenceId;
+      priority: EvidencePriority;
+      weight: number;
+    }>;
+  }
 > = {
   fraud: {
     items: [
-      { id: "authorization_signals", priority: "critical" },
-      { id: "ip_address", priority: "critical" },
-      { id: "billing_address", priority: "recommended" },
-      { id: "customer_email", priority: "recommended" },
-      { id: "customer_comms", priority: "recommended" },
-      { id: "timeline", priority: "recommended" },
-      { id: "attachments", priority: "recommended" },
+      { id: "authorization_signals", priority: "critical", weight: 25 },
+      { id: "ip_address", priority: "critical", weight: 20 },
+      { id: "billing_address", priority: "recommended", weight: 15 },
+      { id: "customer_email", priority: "recommended", weight: 10 },
+      { id: "customer_comms", priority: "recommended", weight: 10 },
+      { id: "timeline", priority: "recommended", weight: 10 },
+      { id: "attachments", priority: "recommended", weight: 10 },
     ],
   },
   product_not_received: {
     items: [
-      { id: "proof_delivery", priority: "critical" },
-      { id: "tracking_details", priority: "critical" },
-      { id: "carrier_info", priority: "recommended" },
-      { id: "delivery_date", priority: "recommended" },
-      { id: "customer_comms", priority: "recommended" },
-      { id: "timeline", priority: "recommended" },
-      { id: "attachments", priority: "recommended" },
+      { id: "proof_delivery", priority: "critical", weight: 30 },
+      { id: "tracking_details", priority: "critical", weight: 20 },
+      { id: "carrier_info", priority: "recommended", weight: 10 },
+      { id: "delivery_date", priority: "recommended", weight: 15 },
+      { id: "customer_comms", priority: "recommended", weight: 10 },
+      { id: "timeline", priority: "recommended", weight: 10 },
+      { id: "attachments", priority: "recommended", weight: 5 },
     ],
   },
   product_unacceptable: {
     items: [
-      { id: "policies", priority: "critical" },
-      { id: "customer_comms", priority: "critical" },
-      { id: "attachments", priority: "critical" },
-      { id: "timeline", priority: "recommended" },
-      { id: "refund_policy_excerpt", priority: "recommended" },
-      { id: "delivery_date", priority: "recommended" },
-      { id: "authorization_signals", priority: "recommended" },
+      { id: "policies", priority: "critical", weight: 20 },
+      { id: "customer_comms", priority: "critical", weight: 20 },
+      { id: "attachments", priority: "critical", weight: 20 },
+      { id: "timeline", priority: "recommended", weight: 10 },
+      { id: "refund_policy_excerpt", priority: "recommended", weight: 15 },
+      { id: "delivery_date", priority: "recommended", weight: 10 },
+      { id: "authorization_signals", priority: "recommended", weight: 5 },
     ],
   },
   credit_not_processed: {
     items: [
-      { id: "policies", priority: "critical" },
-      { id: "customer_comms", priority: "critical" },
-      { id: "timeline", priority: "critical" },
-      { id: "refund_policy_excerpt", priority: "recommended" },
-      { id: "attachments", priority: "recommended" },
-      { id: "authorization_signals", priority: "recommended" },
+      { id: "policies", priority: "critical", weight: 25 },
+      { id: "customer_comms", priority: "critical", weight: 20 },
+      { id: "timeline", priority: "critical", weight: 20 },
+      { id: "refund_policy_excerpt", priority: "recommended", weight: 15 },
+      { id: "attachments", priority: "recommended", weight: 15 },
+      { id: "authorization_signals", priority: "recommended", weight: 5 },
     ],
   },
   duplicate_unrecognized: {
     items: [
-      { id: "authorization_signals", priority: "critical" },
-      { id: "timeline", priority: "critical" },
-      { id: "billing_address", priority: "recommended" },
-      { id: "ip_address", priority: "recommended" },
-      { id: "customer_comms", priority: "recommended" },
-      { id: "attachments", priority: "recommended" },
+      { id: "authorization_signals", priority: "critical", weight: 25 },
+      { id: "timeline", priority: "critical", weight: 20 },
+      { id: "billing_address", priority: "recommended", weight: 15 },
+      { id: "ip_address", priority: "recommended", weight: 15 },
+      { id: "customer_comms", priority: "recommended", weight: 10 },
+      { id: "attachments", priority: "recommended", weight: 15 },
     ],
   },
   other: {
     items: [
-      { id: "timeline", priority: "critical" },
-      { id: "attachments", priority: "recommended" },
-      { id: "policies", priority: "recommended" },
-      { id: "customer_comms", priority: "recommended" },
-      { id: "authorization_signals", priority: "recommended" },
-      { id: "proof_delivery", priority: "recommended" },
+      { id: "timeline", priority: "critical", weight: 25 },
+      { id: "attachments", priority: "recommended", weight: 20 },
+      { id: "policies", priority: "recommended", weight: 15 },
+      { id: "customer_comms", priority: "recommended", weight: 15 },
+      { id: "authorization_signals", priority: "recommended", weight: 10 },
+      { id: "proof_delivery", priority: "recommended", weight: 15 },
     ],
   },
 };
 
-const buildEvidenceItems = (
-  reason: DisputeReason,
-  form: FormState,
-  attachments: AttachmentItem[],
-): EvidenceItem[] => {
-  const config = REASON_EVIDENCE_MAP[reason] ?? REASON_EVIDENCE_MAP.other;
-  return config.items.map((item) => {
-    const definition = EVIDENCE_CATALOG[item.id];
-    return {
-      id: item.id,
-      label: definition.label,
-      tooltip: definition.tooltip,
-      priority: item.priority,
-      present: definition.isPresent(form, attachments),
-    };
-  });
-};
+const CARD_NETWORKS = [
+  { value: "visa", label: "Visa", responseDays: 30 },
+  { value: "mastercard", label: "Mastercard", responseDays: 45 },
+  { value: "amex", label: "American Express", responseDays: 20 },
+  { value: "discover", label: "Discover", responseDays: 30 },
+] as const;
 
-const sortEvidenceByStrength = (items: EvidenceItem[]) => {
-  const priorityRank: Record<EvidencePriority, number> = {
-    critical: 0,
-    recommended: 1,
-  };
+type CardNetwork = (typeof CARD_NETWORKS)[number]["value"];
 
-  return [...items].sort((a, b) => {
-    if (a.present !== b.present) {
-      return a.present ? -1 : 1;
-    }
-    const priorityDelta = priorityRank[a.priority] - priorityRank[b.priority];
-    if (priorityDelta !== 0) {
-      return priorityDelta;
-    }
-    return a.label.localeCompare(b.label);
-  });
+const getCardNetworkLabel = (network: CardNetwork) =>
+  CARD_NETWORKS.find((item) => item.value === network)?.label ?? network;
+
+type ReasonCode = {
+  network: CardNetwork;
+  code: string;
+  label: string;
+  reason: DisputeReason;
+  evidence: Array<{ id: EvidenceId; priority: EvidencePriority }>;
+  requirements: string[];
+  remedy: string;
+  responseDays?: number;
 };
 
-const sortEvidenceByPriority = (items: EvidenceItem[]) => {
-  const priorityRank: Record<EvidencePriority, number> = {
-    critical: 0,
-    recommended: 1,
-  };
+const REASON_CODES: ReasonCode[] = [
+  {
+    network: "visa",
+    code: "10.4",
+    label: "Other Fraud: Card-Absent Environment",
+    reason: "fraud",
+    evidence: [
+      { id: "ip_address", priority: "critical" },
+      { id: "customer_email", priority: "critical" },
+      { id: "billing_address", priority: "critical" },
+    ],
+    requirements: [
+      "AVS and CVV2 results from the authorization.",
+      "For Compelling Evidence 3.0: two prior undisputed transactions 120 to 365 days old sharing the IP address or device ID plus one more identifier.",
+    ],
+    remedy:
+      "Show that the cardholder took part in the transaction, or qualify it under Compelling Evidence 3.0 to shift liability back to the issuer.",
+    responseDays: 20,
+  },
+  {
+    network: "visa",
+    code: "12.6.1",
+    label: "Duplicate Processing",
+    reason: "duplicate_unrecognized",
+    evidence: [{ id: "attachments", priority: "critical" }],
+    requirements: [
+      "Transaction records showing each charge is a separate purchase.",
+    ],
+    remedy:
+      "Demonstrate that each transaction was distinct, or that a credit already reversed the duplicate.",
+    responseDays: 20,
+  },
+  {
+    network: "visa",
+    code: "13.1",
+    label: "Merchandise/Services Not Received",
+    reason: "product_not_received",
+    evidence: [
+      { id: "proof_delivery", priority: "critical" },
+      { id: "delivery_date", priority: "critical" },
+    ],
+    requirements: [
+      "Carrier proof of delivery to the address provided by the cardholder.",
+      "For digital goods: download or access logs tied to the cardholder.",
+    ],
+    remedy:
+      "Prove the merchandise was delivered or the services were provided on or before the expected date.",
+  },
+  {
+    network: "visa",
+    code: "13.2",
+    label: "Cancelled Recurring Transaction",
+    reason: "credit_not_processed",
+    evidence: [
+      { id: "policies", priority: "critical" },
+      { id: "customer_comms", priority: "critical" },
+    ],
+    requirements: [
+      "Evidence the cardholder did not cancel before the billing date.",
+      "The recurring terms the cardholder agreed to.",
+    ],
+    remedy:
+      "Show that the cardholder did not cancel in line with the disclosed terms, or used the service after the cancellation date.",
+  },
+  {
+    network: "visa",
+    code: "13.3",
+    label: "Not as Described or Defective Merchandise/Services",
+    reason: "product_unacceptable",
+    evidence: [
+      { id: "attachments", priority: "critical" },
+      { id: "refund_policy_excerpt", priority: "critical" },
+    ],
+    requirements: [
+      "Product description or listing as shown at the time of purchase.",
+      "Evidence the merchandise was not returned, or was returned outside the policy.",
+    ],
+    remedy:
+      "Show that the merchandise matched its description and was not defective, or that the cardholder did not attempt to return it.",
+  },
+  {
+    network: "visa",
+    code: "13.6",
+    label: "Credit Not Processed",
+    reason: "credit_not_processed",
+    evidence: [{ id: "refund_policy_excerpt", priority: "critical" }],
+    requirements: [
+      "Refund policy disclosed before purchase.",
+      "Proof that a credit was issued, or why none is owed.",
+    ],
+    remedy:
+      "Prove that the credit was processed, or that the cardholder is not entitled to one under the disclosed policy.",
+  },
+  {
+    network: "visa",
+    code: "13.7",
+    label: "Cancelled Merchandise/Services",
+    reason: "credit_not_processed",
+    evidence: [
+      { id: "policies", priority: "critical" },
+      { id: "customer_comms", priority: "critical" },
+    ],
+    requirements: [
+      "Cancellation policy accepted by the cardholder at checkout.",
+    ],
+    remedy:
+      "Show that the cancellation did not comply with the disclosed policy, or that the merchandise was used after cancellation.",
+  },
+  {
+    network: "mastercard",
+    code: "4834",
+    label: "Point-of-Interaction Error (Duplicate Transaction)",
+    reason: "duplicate_unrecognized",
+    evidence: [{ id: "attachments", priority: "critical" }],
+    requirements: ["Records showing two separate, valid transactions."],
+    remedy:
+      "Document that each charge was a separate transaction or that the duplicate was already credited.",
+  },
+  {
+    network: "mastercard",
+    code: "4837",
+    label: "No Cardholder Authorization",
+    reason: "fraud",
+    evidence: [
+      { id: "ip_address", priority: "critical" },
+      { id: "billing_address", priority: "critical" },
+    ],
+    requirements: [
+      "AVS and CVC2 results, or 3-D Secure authentication data.",
+      "Prior undisputed transactions with the same device, IP address, or account.",
+    ],
+    remedy:
+      "Provide compelling evidence that the cardholder made or authorized the transaction.",
+  },
+  {
+    network: "mastercard",
+    code: "4841",
+    label: "Cancelled Recurring or Digital Goods Transaction",
+    reason: "credit_not_processed",
+    evidence: [
+      { id: "policies", priority: "critical" },
+      { id: "customer_comms", priority: "critical" },
+    ],
+    requirements: [
+      "Recurring terms and evidence no cancellation was received in time.",
+    ],
+    remedy:
+      "Show that the cardholder did not cancel before the charge, or continued to use the service.",
+  },
+  {
+    network: "mastercard",
+    code: "4853",
+    label: "Cardholder Dispute (Defective/Not as Described)",
+    reason: "product_unacceptable",
+    evidence: [
+      { id: "attachments", priority: "critical" },
+      { id: "refund_policy_excerpt", priority: "critical" },
+    ],
+    requirements: [
+      "Description of the goods or services as sold.",
+      "Correspondence on any return or repair attempt.",
+    ],
+    remedy:
+      "Show that the goods or services were as described, or that the cardholder did not follow the return process.",
+  },
+  {
+    network: "mastercard",
+    code: "4855",
+    label: "Goods or Services Not Provided",
+    reason: "product_not_received",
+    evidence: [
+      { id: "proof_delivery", priority: "critical" },
+      { id: "delivery_date", priority: "critical" },
+    ],
+    requirements: ["Signed or carrier-confirmed proof of delivery."],
+    remedy:
+      "Prove that the goods or services were delivered to the cardholder.",
+  },
+  {
+    network: "mastercard",
+    code: "4860",
+    label: "Credit Not Processed",
+    reason: "credit_not_processed",
+    evidence: [{ id: "refund_policy_excerpt", priority: "critical" }],
+    requirements: ["Refund policy and proof of any credit issued."],
+    remedy:
+      "Show that the credit was issued, or that no credit is due under the disclosed policy.",
+  },
+  {
+    network: "mastercard",
+    code: "4863",
+    label: "Cardholder Does Not Recognize",
+    reason: "duplicate_unrecognized",
+    evidence: [
+      { id: "customer_email", priority: "critical" },
+      { id: "proof_delivery", priority: "recommended" },
+    ],
+    requirements: [
+      "Transaction details that help the cardholder recognize the purchase.",
+    ],
+    remedy:
+      "Provide order details, delivery address, and billing descriptor information that identify the purchase.",
+  },
+  {
+    network: "amex",
+    code: "F29",
+    label: "Card Not Present",
+    reason: "fraud",
+    evidence: [
+      { id: "billing_address", priority: "critical" },
+      { id: "ip_address", priority: "critical" },
+    ],
+    requirements: [
+      "Proof of delivery to the billing address verified by AVS.",
+      "Evidence of prior undisputed charges on the same card.",
+    ],
+    remedy:
+      "Show that goods shipped to the verified billing address or that the card member participated in the charge.",
+  },
+  {
+    network: "amex",
+    code: "C02",
+    label: "Credit Not Processed",
+    reason: "credit_not_processed",
+    evidence: [{ id: "refund_policy_excerpt", priority: "critical" }],
+    requirements: ["Refund policy and proof of any credit issued."],
+    remedy:
+      "Show that the credit was issued, or that the card member is not owed one.",
+  },
+  {
+    network: "amex",
+    code: "C08",
+    label: "Goods/Services Not Received",
+    reason: "product_not_received",
+    evidence: [
+      { id: "proof_delivery", priority: "critical" },
+      { id: "delivery_date", priority: "critical" },
+    ],
+    requirements: ["Proof of delivery to the card member's address."],
+    remedy:
+      "Prove that the goods were delivered or the services were rendered.",
+  },
+  {
+    network: "amex",
+    code: "C28",
+    label: "Cancelled Recurring Billing",
+    reason: "credit_not_processed",
+    evidence: [
+      { id: "policies", priority: "critical" },
+      { id: "customer_comms", priority: "critical" },
+    ],
+    requirements: ["Recurring terms and the card member's usage history."],
+    remedy:
+      "Show that the card member did not cancel or continued to use the service.",
+  },
+  {
+    network: "amex",
+    code: "C31",
+    label: "Goods/Services Not as Described",
+    reason: "product_unacceptable",
+    evidence: [
+      { id: "attachments", priority: "critical" },
+      { id: "refund_policy_excerpt", priority: "critical" },
+    ],
+    requirements: ["Product description and return records."],
+    remedy:
+      "Show that the goods matched their description or that no return was attempted.",
+  },
+  {
+    network: "amex",
+    code: "P08",
+    label: "Duplicate Charge",
+    reason: "duplicate_unrecognized",
+    evidence: [{ id: "attachments", priority: "critical" }],
+    requirements: ["Records of each separate charge."],
+    remedy: "Show that both charges were valid and separate.",
+  },
+  {
+    network: "discover",
+    code: "UA02",
+    label: "Fraud: Card Not Present Transaction",
+    reason: "fraud",
+    evidence: [
+      { id: "ip_address", priority: "critical" },
+      { id: "billing_address", priority: "critical" },
+    ],
+    requirements: [
+      "AVS and CID results, and proof of delivery to the verified address.",
+    ],
+    remedy:
+      "Provide evidence that the cardholder authorized and received the purchase.",
+  },
+  {
+    network: "discover",
+    code: "AA",
+    label: "Does Not Recognize",
+    reason: "duplicate_unrecognized",
+    evidence: [{ id: "customer_email", priority: "critical" }],
+    requirements: ["Order details that identify the purchase."],
+    remedy:
+      "Provide transaction documentation that helps the cardholder recognize the charge.",
+  },
+  {
+    network: "discover",
+    code: "DP",
+    label: "Duplicate Processing",
+    reason: "duplicate_unrecognized",
+    evidence: [{ id: "attachments", priority: "critical" }],
+    requirements: ["Records of each separate charge."],
+    remedy: "Show that both charges were valid and separate.",
+  },
+  {
+    network: "discover",
+    code: "RG",
+    label: "Non-Receipt of Goods or Services",
+    reason: "product_not_received",
+    evidence: [
+      { id: "proof_delivery", priority: "critical" },
+      { id: "delivery_date", priority: "critical" },
+    ],
+    requirements: ["Proof of delivery to the cardholder's address."],
+    remedy:
+      "Prove that the goods were delivered or the services were provided.",
+  },
+  {
+    network: "discover",
+    code: "RM",
+    label: "Quality Discrepancy",
+    reason: "product_unacceptable",
+    evidence: [
+      { id: "attachments", priority: "critical" },
+      { id: "refund_policy_excerpt", priority: "critical" },
+    ],
+    requirements: ["Product description and return records."],
+    remedy:
+      "Show that the goods met their description or that no valid return was made.",
+  },
+  {
+    network: "discover",
+    code: "RN2",
+    label: "Credit Not Received",
+    reason: "credit_not_processed",
+    evidence: [{ id: "refund_policy_excerpt", priority: "critical" }],
+    requirements: ["Refund policy and proof of any credit issued."],
+    remedy: "Show that the credit was processed, or that no credit is due.",
+  },
+];
 
-  return [...items].sort((a, b) => {
-    const priorityDelta = priorityRank[a.priority] - priorityRank[b.priority];
-    if (priorityDelta !== 0) {
-      return priorityDelta;
-    }
-    return a.label.localeCompare(b.label);
-  });
-};
+const getReasonCode = (form: FormState) =>
+  REASON_CODES.find(
+    (item) =>
+      item.network === form.card_network && item.code === form.reason_code,
+  );
 
-const createAttachmentId = () => {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+type ResponseDeadline = {
+  dueDate: string;
+  source: "processor" | "network";
+  windowDays: number | null;
+  networkDueDate: string;
 };
 
-const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => {
-  const copy = new Uint8Array(bytes);
-  return copy.buffer;
+const getResponseWindowDays = (form: FormState) => {
+  if (!form.card_network) {
+    return null;
+  }
+  return (
+    getReasonCode(form)?.responseDays ??
+    CARD_NETWORKS.find((item) => item.value === form.card_network)
+      ?.responseDays ??
+    null
+  );
 };
 
-const formatBytes = (bytes: number) => {
-  if (bytes < 1024) {
-    return `${bytes} B`;
+const getResponseDeadline = (form: FormState): ResponseDeadline | null => {
+  const windowDays = getResponseWindowDays(form);
+  const networkDueDate =
+    windowDays !== null && isValidDate(form.dispute_opened_date)
+      ? addDays(form.dispute_opened_date, windowDays)
+      : "";
+  if (isValidDate(form.response_due_date)) {
+    return {
+      dueDate: form.response_due_date,
+      source: "processor",
+      windowDays,
+      networkDueDate,
+    };
   }
-  const kb = bytes / 1024;
-  if (kb < 1024) {
-    return `${kb.toFixed(1)} KB`;
+  if (networkDueDate) {
+    return {
+      dueDate: networkDueDate,
+      source: "network",
+      windowDays,
+      networkDueDate,
+    };
+  }
+  return null;
+};
+
+const describeResponseDeadline = (
+  deadline: ResponseDeadline,
+  format: OutputFormat,
+) =>
+  deadline.source === "processor"
+    ? `${formatDate(deadline.dueDate, format)} (processor due date)`
+    : `${formatDate(deadline.dueDate, format)} (estimated from the ${
+        deadline.windowDays
+      }-day network window)`;
+
+const formatReasonCode = (reasonCode: ReasonCode) =>
+  `${getCardNetworkLabel(reasonCode.network)} ${reasonCode.code} — ${reasonCode.label}`;
+
+type TextFieldKey = {
+  [K in keyof FormState]: FormState[K] extends string ? K : never;
+}[keyof FormState];
+
+const CUSTOM_EVIDENCE_FIELDS: Array<{ value: TextFieldKey; label: string }> = [
+  { value: "customer_email", label: "Customer email" },
+  { value: "billing_address", label: "Billing address" },
+  { value: "ip_address", label: "IP address" },
+  { value: "tracking_number", label: "Tracking number" },
+  { value: "carrier", label: "Carrier" },
+  { value: "delivery_date", label: "Delivery date" },
+  { value: "policy_url", label: "Policy URL" },
+  { value: "refund_policy_excerpt", label: "Refund policy excerpt" },
+  {
+    value: "customer_communication_notes",
+    label: "Customer communication notes",
+  },
+  { value: "processor_case_number", label: "Processor case number" },
+];
+
+type CustomEvidenceRule =
+  | { kind: "field"; field: TextFieldKey }
+  | { kind: "attachment_tag"; tag: string }
+  | { kind: "timeline_category"; category: TimelineCategory };
+
+type CustomEvidenceEntry = {
+  id: string;
+  label: string;
+  tooltip: string;
+  rule: CustomEvidenceRule;
+  priorities: Partial<Record<DisputeReason, EvidencePriority>>;
+};
+
+const CUSTOM_EVIDENCE_STORAGE_KEY = "disputeshield.customEvidence";
+
+const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, "").toLowerCase();
+
+const getFieldLabel = (field: TextFieldKey) =>
+  CUSTOM_EVIDENCE_FIELDS.find((item) => item.value === field)?.label ?? field;
+
+const isCustomEvidencePresent = (
+  entry: CustomEvidenceEntry,
+  form: FormState,
+  attachments: AttachmentItem[],
+) => {
+  const { rule } = entry;
+  if (rule.kind === "field") {
+    return hasValue(form[rule.field]);
+  }
+  if (rule.kind === "attachment_tag") {
+    return attachments.some((attachment) => attachment.tags.includes(rule.tag));
+  }
+  return hasTimelineCategory(form, rule.category);
+};
+
+const describeCustomEvidenceRule = (rule: CustomEvidenceRule) => {
+  if (rule.kind === "field") {
+    return `Present when ${getFieldLabel(rule.field)} is filled in.`;
+  }
+  if (rule.kind === "attachment_tag") {
+    return `Present when an attachment is tagged #${rule.tag}.`;
+  }
+  return `Present when the timeline has a ${getTimelineCategoryLabel(
+    rule.category,
+  ).toLowerCase()} event.`;
+};
+
+const getCustomEvidenceAction = (entry: CustomEvidenceEntry) => {
+  const { rule } = entry;
+  if (rule.kind === "field") {
+    return `Fill in ${getFieldLabel(rule.field)} to show ${entry.label}.`;
+  }
+  if (rule.kind === "attachment_tag") {
+    return `Attach ${entry.label} and tag it #${rule.tag}.`;
+  }
+  return `Add a ${getTimelineCategoryLabel(
+    rule.category,
+  ).toLowerCase()} timeline event for ${entry.label}.`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseCustomEvidenceRule = (
+  value: unknown,
+  position: string,
+): CustomEvidenceRule => {
+  if (isRecord(value)) {
+    if (
+      value.kind === "field" &&
+      CUSTOM_EVIDENCE_FIELDS.some((field) => field.value === value.field)
+    ) {
+      return { kind: "field", field: value.field as TextFieldKey };
+    }
+    if (
+      value.kind === "attachment_tag" &&
+      typeof value.tag === "string" &&
+      normalizeTag(value.tag)
+    ) {
+      return { kind: "attachment_tag", tag: normalizeTag(value.tag) };
+    }
+    if (
+      value.kind === "timeline_category" &&
+      TIMELINE_CATEGORIES.some((item) => item.value === value.category)
+    ) {
+      return {
+        kind: "timeline_category",
+        category: value.category as TimelineCategory,
+      };
+    }
+  }
+  throw new Error(`${position} has an unsupported presence rule.`);
+};
+
+const parseCustomEvidence = (value: unknown): CustomEvidenceEntry[] => {
+  const items = Array.isArray(value)
+    ? value
+    : isRecord(value) && Array.isArray(value.items)
+      ? value.items
+      : null;
+  if (!items) {
+    throw new Error("Expected an evidence catalog with an items array.");
+  }
+
+  // Imported ids always live under "custom-" so they can never collide with a
+  // built-in evidence id; a repeated id within the file gets a fresh one.
+  const seenIds = new Set<string>();
+  const toCustomId = (id: unknown) => {
+    const trimmed = typeof id === "string" ? id.trim() : "";
+    const namespaced = !trimmed
+      ? ""
+      : trimmed.startsWith("custom-")
+        ? trimmed
+        : `custom-${trimmed}`;
+    const unique =
+      namespaced && !seenIds.has(namespaced)
+        ? namespaced
+        : `custom-${createId()}`;
+    seenIds.add(unique);
+    return unique;
+  };
+
+  return items.map((item: unknown, index) => {
+    const position = `Item ${index + 1}`;
+    if (
+      !isRecord(item) ||
+      typeof item.label !== "string" ||
+      !item.label.trim()
+    ) {
+      throw new Error(`${position} needs a label.`);
+    }
+    const priorities: CustomEvidenceEntry["priorities"] = {};
+    const sourcePriorities = isRecord(item.priorities) ? item.priorities : {};
+    DISPUTE_REASONS.forEach(({ value: reason }) => {
+      const priority = sourcePriorities[reason];
+      if (priority === "critical" || priority === "recommended") {
+        priorities[reason] = priority;
+      }
+    });
+    return {
+      id: toCustomId(item.id),
+      label: item.label.trim(),
+      tooltip: typeof item.tooltip === "string" ? item.tooltip.trim() : "",
+      rule: parseCustomEvidenceRule(item.rule, position),
+      priorities,
+    };
+  });
+};
+
+const loadCustomEvidence = () => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_EVIDENCE_STORAGE_KEY);
+    return stored ? parseCustomEvidence(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+const buildEvidenceItems = (
+  reason: DisputeReason,
+  form: FormState,
+  attachments: AttachmentItem[],
+  customEvidence: CustomEvidenceEntry[] = [],
+): EvidenceItem[] => {
+  const config = REASON_EVIDENCE_MAP[reason] ?? REASON_EVIDENCE_MAP.other;
+  const items = [...config.items];
+  getReasonCode(form)?.evidence.forEach((requirement) => {
+    const index = items.findIndex((item) => item.id === requirement.id);
+    const weight = PRIORITY_WEIGHTS[requirement.priority];
+    if (index === -1) {
+      items.push({ ...requirement, weight });
+    } else if (requirement.priority === "critical") {
+      items[index] = {
+        ...requirement,
+        weight: Math.max(items[index].weight, weight),
+      };
+    }
+  });
+  const builtIn = items.map((item) => {
+    const definition: EvidenceCatalogEntry = EVIDENCE_CATALOG[item.id];
+    const entered = definition.isPresent(form, attachments);
+    const tagged = isSatisfiedByAttachmentTags(item.id, attachments);
+    return {
+      id: item.id,
+      label: definition.label,
+      tooltip: definition.tooltip,
+      priority: item.priority,
+      present: entered || tagged,
+      weight: item.weight,
+      credit: tagged
+        ? 1
+        : entered
+          ? (definition.credit?.(form, attachments) ?? 1)
+          : 0,
+      action: definition.action,
+    };
+  });
+  const custom = customEvidence.flatMap((entry) => {
+    const priority = entry.priorities[reason];
+    if (!priority) {
+      return [];
+    }
+    const present = isCustomEvidencePresent(entry, form, attachments);
+    return [
+      {
+        id: entry.id,
+        label: entry.label,
+        tooltip: entry.tooltip || describeCustomEvidenceRule(entry.rule),
+        priority,
+        present,
+        weight: PRIORITY_WEIGHTS[priority],
+        credit: present ? 1 : 0,
+        action: getCustomEvidenceAction(entry),
+      },
+    ];
+  });
+  return [...builtIn, ...custom];
+};
+
+type EvidenceScore = {
+  score: number;
+  level: "strong" | "moderate" | "weak";
+  items: Array<EvidenceItem & { points: number; maxPoints: number }>;
+  penalties: Array<{ message: string; points: number }>;
+  actions: Array<{ label: string; gain: number }>;
+};
+
+const getEvidenceContradictions = (form: FormState) => {
+  const penalties: Array<{ message: string; points: number }> = [];
+  const timelineIssueCount = Array.from(
+    validateTimeline(form.timeline).values(),
+  ).reduce((total, issues) => total + issues.length, 0);
+  if (timelineIssueCount > 0) {
+    penalties.push({
+      message: `${timelineIssueCount} timeline issue${
+        timelineIssueCount === 1 ? "" : "s"
+      } (out-of-order or invalid timestamps).`,
+      points: Math.min(15, timelineIssueCount * 5),
+    });
+  }
+
+  const deliveryEvent = form.timeline.find(
+    (entry) => entry.category === "delivery",
+  );
+  const orderEvent = form.timeline.find((entry) => entry.category === "order");
+  const deliveryDate = form.delivery_date.trim();
+  if (
+    isValidDate(deliveryDate) &&
+    deliveryEvent &&
+    deliveryEvent.date !== deliveryDate
+  ) {
+    penalties.push({
+      message: `The delivery date (${deliveryDate}) differs from the timeline delivery event (${deliveryEvent.date}).`,
+      points: 10,
+    });
+  }
+  if (
+    isValidDate(deliveryDate) &&
+    orderEvent &&
+    deliveryDate < orderEvent.date
+  ) {
+    penalties.push({
+      message: `The delivery date (${deliveryDate}) is before the order date (${orderEvent.date}).`,
+      points: 10,
+    });
+  }
+  if (
+    form.dispute_reason !== "credit_not_processed" &&
+    hasTimelineCategory(form, "refund")
+  ) {
+    penalties.push({
+      message:
+        "A refund is recorded in the timeline, so the issuer may treat the dispute as already resolved.",
+      points: 10,
+    });
+  }
+  return penalties;
+};
+
+const scoreEvidence = (
+  items: EvidenceItem[],
+  form: FormState,
+): EvidenceScore => {
+  const possible = items.reduce((total, item) => total + item.weight, 0);
+  const toPoints = (weight: number) =>
+    possible > 0 ? (weight / possible) * 100 : 0;
+  const scoredItems = items.map((item) => ({
+    ...item,
+    points: Math.round(toPoints(item.weight * item.credit)),
+    maxPoints: Math.round(toPoints(item.weight)),
+  }));
+  const penalties = getEvidenceContradictions(form);
+  const earned = items.reduce(
+    (total, item) => total + toPoints(item.weight * item.credit),
+    0,
+  );
+  const deducted = penalties.reduce(
+    (total, penalty) => total + penalty.points,
+    0,
+  );
+  const score = Math.max(0, Math.min(100, Math.round(earned - deducted)));
+  const actions = [
+    ...items
+      .filter((item) => item.credit < 1)
+      .map((item) => ({
+        label: item.action,
+        gain: Math.round(toPoints(item.weight * (1 - item.credit))),
+      })),
+    ...penalties.map((penalty) => ({
+      label: `Resolve: ${penalty.message}`,
+      gain: penalty.points,
+    })),
+  ]
+    .filter((action) => action.gain > 0)
+    .sort((a, b) => b.gain - a.gain);
+
+  return {
+    score,
+    level: score >= 75 ? "strong" : score >= 50 ? "moderate" : "weak",
+    items: scoredItems,
+    penalties,
+    actions,
+  };
+};
+
+const formatEvidenceScore = (evidenceScore: EvidenceScore) => [
+  `Evidence strength: ${evidenceScore.score}/100 (${evidenceScore.level})`,
+  ...evidenceScore.items.map(
+    (item) =>
+      `- ${item.label}: ${item.points}/${item.maxPoints}${
+        item.present && item.credit < 1 ? " (partial)" : ""
+      }`,
+  ),
+  ...(evidenceScore.penalties.length > 0
+    ? [
+        "Penalties:",
+        ...evidenceScore.penalties.map(
+          (penalty) => `- -${penalty.points}: ${penalty.message}`,
+        ),
+      ]
+    : []),
+  ...(evidenceScore.actions.length > 0
+    ? [
+        "Actions that would raise the score most:",
+        ...evidenceScore.actions
+          .slice(0, 5)
+          .map((action) => `- +${action.gain}: ${action.label}`),
+      ]
+    : []),
+];
+
+const sortEvidenceByStrength = (items: EvidenceItem[]) => {
+  const priorityRank: Record<EvidencePriority, number> = {
+    critical: 0,
+    recommended: 1,
+  };
+
+  return [...items].sort((a, b) => {
+    if (a.present !== b.present) {
+      return a.present ? -1 : 1;
+    }
+    const priorityDelta = priorityRank[a.priority] - priorityRank[b.priority];
+    if (priorityDelta !== 0) {
+      return priorityDelta;
+    }
+    return a.label.localeCompare(b.label);
+  });
+};
+
+const sortEvidenceByPriority = (items: EvidenceItem[]) => {
+  const priorityRank: Record<EvidencePriority, number> = {
+    critical: 0,
+    recommended: 1,
+  };
+
+  return [...items].sort((a, b) => {
+    const priorityDelta = priorityRank[a.priority] - priorityRank[b.priority];
+    if (priorityDelta !== 0) {
+      return priorityDelta;
+    }
+    return a.label.localeCompare(b.label);
+  });
+};
+
+type RebuttalTemplate = {
+  opening: (form: FormState) => string;
+  evidence: EvidenceId[];
+  closing: string;
+};
+
+const describeAmount = (form: FormState) =>
+  hasValue(form.amount)
+    ? formatMoney(form.amount, form.currency, getOutputFormat(form))
+    : "the disputed amount";
+
+const REBUTTAL_ARGUMENTS: Partial<
+  Record<EvidenceId, (form: FormState) => string>
+> = {
+  billing_address: (form) =>
+    `The order was placed using the billing address ${form.billing_address.trim()}.`,
+  ip_address: (form) =>
+    `The order was placed from IP address ${form.ip_address.trim()}.`,
+  customer_email: (form) =>
+    `Order confirmation and shipping updates were sent to ${form.customer_email.trim()}, the email address the customer provided at checkout.`,
+  tracking_details: (form) =>
+    `The order was shipped${
+      hasValue(form.carrier) ? ` via ${form.carrier.trim()}` : ""
+    } under tracking number ${form.tracking_number.trim()}.`,
+  delivery_date: (form) =>
+    `The carrier confirmed delivery on ${formatDate(
+      getDeliveryDate(form),
+      getOutputFormat(form),
+    )}.`,
+  policy_url: (form) =>
+    `Our refund and cancellation policy is published at ${form.policy_url.trim()} and was available to the customer before purchase.`,
+  refund_policy_excerpt: (form) =>
+    `The relevant section of our policy reads: "${form.refund_policy_excerpt.trim()}"`,
+  customer_comms: (form) =>
+    [
+      hasValue(form.customer_communication_notes)
+        ? `Our correspondence with the customer about this order is summarized as follows: ${form.customer_communication_notes.trim()}`
+        : "",
+      form.correspondence.length > 0
+        ? `The ${form.correspondence.length} emails exchanged with the customer are reproduced in full, in chronological order, in the correspondence exhibit.`
+        : "",
+      hasTimelineCategory(form, "contact")
+        ? "Each contact with the customer is recorded in the timeline with its date and source."
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" "),
+  timeline: () =>
+    "A dated timeline of the order, from purchase through fulfillment, is included in this packet.",
+  attachments: () =>
+    "Supporting documents are attached as lettered exhibits and referenced in the timeline.",
+};
+
+const REBUTTAL_TEMPLATES: Record<DisputeReason, RebuttalTemplate> = {
+  fraud: {
+    opening: (form) =>
+      `The cardholder claims that the charge for order ${form.order_id.trim() || "—"} was not authorized. Our records show that the transaction was made by the cardholder, and we ask that the chargeback be reversed for the reasons below.`,
+    evidence: [
+      "billing_address",
+      "ip_address",
+      "customer_email",
+      "tracking_details",
+      "delivery_date",
+      "customer_comms",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "The authorization signals above are consistent with a purchase made by the legitimate cardholder. We therefore request that this dispute be resolved in our favor.",
+  },
+  product_not_received: {
+    opening: (form) =>
+      `The cardholder claims that the merchandise purchased in order ${form.order_id.trim() || "—"} was not received. Our records show that the order was shipped and delivered.`,
+    evidence: [
+      "tracking_details",
+      "delivery_date",
+      "customer_email",
+      "customer_comms",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "Because the merchandise was delivered to the address the customer provided, we request that the chargeback be reversed.",
+  },
+  product_unacceptable: {
+    opening: (form) =>
+      `The cardholder claims that the merchandise purchased in order ${form.order_id.trim() || "—"} was defective or not as described. The product was delivered as described, and our policies were available to the customer at the time of purchase.`,
+    evidence: [
+      "delivery_date",
+      "policy_url",
+      "refund_policy_excerpt",
+      "customer_comms",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "The customer did not follow the return process set out in our policy. We therefore request that the chargeback be reversed.",
+  },
+  credit_not_processed: {
+    opening: (form) =>
+      `The cardholder claims that a credit for order ${form.order_id.trim() || "—"} was not processed. Under the policy the customer accepted at purchase, no credit is due for this transaction.`,
+    evidence: [
+      "policy_url",
+      "refund_policy_excerpt",
+      "customer_comms",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "As the customer is not entitled to a credit under the terms accepted at purchase, we request that the chargeback be reversed.",
+  },
+  duplicate_unrecognized: {
+    opening: (form) =>
+      `The cardholder claims that the charge for order ${form.order_id.trim() || "—"} is a duplicate or is not recognized. This charge is a single, distinct transaction placed by the cardholder.`,
+    evidence: [
+      "customer_email",
+      "billing_address",
+      "ip_address",
+      "tracking_details",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "The charge corresponds to one order and was not billed more than once. We therefore request that the chargeback be reversed.",
+  },
+  other: {
+    opening: (form) =>
+      `We dispute the chargeback filed against order ${form.order_id.trim() || "—"}. The transaction was valid and the order was fulfilled as agreed.`,
+    evidence: [
+      "tracking_details",
+      "delivery_date",
+      "policy_url",
+      "refund_policy_excerpt",
+      "customer_comms",
+      "timeline",
+      "attachments",
+    ],
+    closing:
+      "Based on the evidence provided, we request that this dispute be resolved in our favor.",
+  },
+};
+
+const buildRebuttalLetter = (
+  form: FormState,
+  attachments: AttachmentItem[],
+) => {
+  const template =
+    REBUTTAL_TEMPLATES[form.dispute_reason] ?? REBUTTAL_TEMPLATES.other;
+  const merchant = form.merchant_name.trim() || "The merchant";
+  const reasonCode = getReasonCode(form);
+  const evidenceSentences = template.evidence
+    .filter((id) => EVIDENCE_CATALOG[id].isPresent(form, attachments))
+    .map((id) => REBUTTAL_ARGUMENTS[id]?.(form))
+    .filter((sentence): sentence is string => Boolean(sentence));
+
+  const reference = [
+    `Order ${form.order_id.trim() || "—"}`,
+    hasValue(form.processor_case_number)
+      ? `Case ${form.processor_case_number.trim()}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return [
+    merchant,
+    formatDate(getTodayDate(), getOutputFormat(form)),
+    "",
+    `Re: Chargeback response for ${reference}`,
+    `Amount: ${describeAmount(form)}`,
+    `Dispute reason: ${getReasonLabel(form.dispute_reason)}`,
+    ...(reasonCode ? [`Reason code: ${formatReasonCode(reasonCode)}`] : []),
+    `Time zone: ${getOutputFormat(form).timeZone}`,
+    "",
+    "To the dispute review team,",
+    "",
+    template.opening(form),
+    "",
+    ...(evidenceSentences.length > 0
+      ? [evidenceSentences.join(" "), ""]
+      : []),
+    template.closing,
+    "",
+    "Sincerely,",
+    merchant,
+  ].join("\n");
+};
+
+const redactFormState = (
+  form: FormState,
+  options: RedactionOptions,
+): FormState => {
+  const redactText = createTextRedactor(options, {
+    email: form.customer_email,
+    ipAddress: form.ip_address,
+  });
+
+  return {
+    ...form,
+    customer_email: maskEmail(form.customer_email),
+    ip_address: options.maskIpAddress
+      ? maskIpAddress(form.ip_address)
+      : form.ip_address,
+    customer_communication_notes: redactText(
+      form.customer_communication_notes,
+    ),
+    correspondence: form.correspondence.map((message) => ({
+      ...message,
+      from: redactText(message.from),
+      to: redactText(message.to),
+      subject: redactText(message.subject),
+      body: redactText(message.body),
+    })),
+    rebuttal_letter: redactText(form.rebuttal_letter),
+    timeline: form.timeline.map((entry) => ({
+      ...entry,
+      source: redactText(entry.source),
+      description: redactText(entry.description),
+    })),
+  };
+};
+
+const createId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => {
+  const copy = new Uint8Array(bytes);
+  return copy.buffer;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const kb = bytes / 1024;
+  if (kb < 1024) {
+    return `${kb.toFixed(1)} KB`;
   }
   const mb = kb / 1024;
   return `${mb.toFixed(2)} MB`;
 };
 
-function EvidenceApp() {
+type AttachmentKind = "png" | "jpeg" | "pdf" | "other";
+
+const getAttachmentKind = (file: File): AttachmentKind => {
+  const type = file.type.toLowerCase();
+  const name = file.name.toLowerCase();
+  if (type === "image/png" || name.endsWith(".png")) {
+    return "png";
+  }
+  if (type === "image/jpeg" || /\.jpe?g$/.test(name)) {
+    return "jpeg";
+  }
+  if (type === "application/pdf" || name.endsWith(".pdf")) {
+    return "pdf";
+  }
+  return "other";
+};
+
+const isUploadedSeparately = (profile: ExportProfile, file: File) =>
+  profile.uploadMode === "separate" &&
+  profile.acceptedKinds.includes(getAttachmentKind(file));
+
+const getProcessorSafeFilename = (name: string, maxLength: number) => {
+  const dot = name.lastIndexOf(".");
+  const extension =
+    dot > 0 ? name.slice(dot).toLowerCase().replace(/[^a-z0-9.]/g, "") : "";
+  const stem =
+    (dot > 0 ? name.slice(0, dot) : name)
+      .replace(/[^a-z0-9_-]+/gi, "_")
+      .replace(/^_+|_+$/g, "") || "file";
+  return stem.slice(0, Math.max(1, maxLength - extension.length)) + extension;
+};
+
+const getExportIssues = (
+  profile: ExportProfile,
+  pdfStats: PdfStats | null,
+  attachments: AttachmentItem[],
+  letterLength: number,
+): ExportIssue[] => {
+  const issues: ExportIssue[] = [];
+  const level = profile.enforceLimits ? "error" : "warning";
+
+  if (pdfStats && pdfStats.partSizes.length > 0) {
+    pdfStats.partSizes.forEach((partBytes, index) => {
+      if (partBytes > profile.maxPdfBytes) {
+        issues.push({
+          level,
+          category: "size",
+          message: `Part ${index + 1} of the split PDF is ${formatBytes(
+            partBytes,
+          )}; ${profile.label} accepts up to ${formatBytes(
+            profile.maxPdfBytes,
+          )} per file.`,
+        });
+      }
+    });
+  } else if (pdfStats && pdfStats.sizeBytes > profile.maxPdfBytes) {
+    issues.push({
+      level,
+      category: "size",
+      message: `The PDF is ${formatBytes(pdfStats.sizeBytes)}; ${
+        profile.label
+      } accepts up to ${formatBytes(profile.maxPdfBytes)}.`,
+    });
+  }
+  if (
+    pdfStats &&
+    profile.maxPdfPages !== null &&
+    pdfStats.pageCount > profile.maxPdfPages
+  ) {
+    issues.push({
+      level,
+      category: "pages",
+      message: `The PDF has ${pdfStats.pageCount} pages; ${
+        profile.label
+      } accepts up to ${profile.maxPdfPages}.`,
+    });
+  }
+
+  if (profile.uploadMode === "packet") {
+    const attachmentsBytes = attachments.reduce(
+      (total, item) => total + item.file.size,
+      0,
+    );
+    if (attachmentsBytes > profile.maxTotalBytes) {
+      issues.push({
+        level,
+        category: "size",
+        message: `Attachments total ${formatBytes(
+          attachmentsBytes,
+        )} and may push the ZIP over upload limits.`,
+      });
+    }
+  }
+
+  attachments.forEach((attachment) => {
+    const kind = getAttachmentKind(attachment.file);
+    const name = attachment.file.name;
+    if (profile.uploadMode === "combined" && kind === "other") {
+      issues.push({
+        level: "warning",
+        category: "content",
+        message: `${name} can’t be merged into the PDF and ${profile.label} takes a single document, so it is only kept in the ZIP for reference.`,
+      });
+    }
+    if (profile.uploadMode !== "separate") {
+      return;
+    }
+    if (!profile.acceptedKinds.includes(kind)) {
+      issues.push({
+        level: "warning",
+        category: "content",
+        message: `${profile.label} doesn’t accept ${name}; it is left out of the upload folder${
+          kind === "other" ? "" : " but still appears in the PDF"
+        }.`,
+      });
+    } else if (attachment.file.size > profile.maxFileBytes) {
+      issues.push({
+        level,
+        category: "size",
+        message: `${name} is ${formatBytes(attachment.file.size)}; ${
+          profile.label
+        } accepts files up to ${formatBytes(profile.maxFileBytes)}.`,
+      });
+    }
+  });
+
+  if (profile.uploadMode === "separate" && pdfStats) {
+    const pdfUploadBytes =
+      pdfStats.partSizes.length > 0
+        ? pdfStats.partSizes.reduce((total, size) => total + size, 0)
+        : pdfStats.sizeBytes;
+    const uploadBytes = attachments
+      .filter((attachment) => isUploadedSeparately(profile, attachment.file))
+      .reduce((total, item) => total + item.file.size, pdfUploadBytes);
+    if (uploadBytes > profile.maxTotalBytes) {
+      issues.push({
+        level,
+        category: "size",
+        message: `Upload files total ${formatBytes(uploadBytes)}; ${
+          profile.label
+        } accepts up to ${formatBytes(profile.maxTotalBytes)} per dispute.`,
+      });
+    }
+  }
+
+  if (profile.maxTextLength !== null && letterLength > profile.maxTextLength) {
+    issues.push({
+      level: "warning",
+      category: "content",
+      message: `The rebuttal letter is ${letterLength.toLocaleString()} characters; ${
+        profile.label
+      }’s text field takes up to ${profile.maxTextLength.toLocaleString()}. Shorten it or rely on the copy in the PDF.`,
+    });
+  }
+
+  return issues;
+};
+
+const VALIDATED_FIELD_LABELS: Partial<Record<TextFieldKey, string>> = {
+  amount: "Amount",
+  currency: "Currency",
+  dispute_opened_date: "Dispute opened date",
+  response_due_date: "Response due date",
+};
+
+const validateForm = (form: FormState, today: string) => {
+  const issues: FieldIssue[] = [];
+  const add = (
+    rule: ValidationRuleId,
+    field: TextFieldKey,
+    message: string | null,
+  ) => {
+    if (message) {
+      issues.push({ rule, field, message });
+    }
+  };
+
+  add("amount", "amount", validateAmount(form.amount, form.currency));
+  add("currency", "currency", validateCurrency(form.currency));
+  add(
+    "ip_address",
+    "ip_address",
+    hasValue(form.ip_address) && !isValidIpAddress(form.ip_address)
+      ? "Enter a valid IPv4 or IPv6 address."
+      : null,
+  );
+  add(
+    "email",
+    "customer_email",
+    hasValue(form.customer_email) && !isValidEmail(form.customer_email)
+      ? "Enter a valid email address."
+      : null,
+  );
+  add(
+    "url",
+    "policy_url",
+    hasValue(form.policy_url) && !isValidUrl(form.policy_url)
+      ? "Enter a full link, for example https://shop.example.com/refunds."
+      : null,
+  );
+  add(
+    "tracking_number",
+    "tracking_number",
+    validateTrackingNumber(form.tracking_number, form.carrier),
+  );
+
+  const orderDate =
+    form.timeline.find(
+      (entry) => entry.category === "order" && isValidDate(entry.date),
+    )?.date ?? "";
+  const dateFields: Array<[TextFieldKey, string]> = [
+    ["delivery_date", form.delivery_date.trim()],
+    ["dispute_opened_date", form.dispute_opened_date.trim()],
+    ["response_due_date", form.response_due_date.trim()],
+  ];
+  dateFields.forEach(([field, value]) => {
+    if (value && !isValidDate(value)) {
+      add("dates", field, "Use a valid YYYY-MM-DD date.");
+    }
+  });
+  const deliveryDate = form.delivery_date.trim();
+  if (isValidDate(deliveryDate)) {
+    if (deliveryDate > today) {
+      add("dates", "delivery_date", "The delivery date is in the future.");
+    } else if (orderDate && deliveryDate < orderDate) {
+      add(
+        "dates",
+        "delivery_date",
+        `Delivery is dated before the order was placed (${orderDate}).`,
+      );
+    }
+  }
+  const openedDate = form.dispute_opened_date.trim();
+  if (isValidDate(openedDate) && orderDate && openedDate < orderDate) {
+    add(
+      "dates",
+      "dispute_opened_date",
+      `The dispute is dated before the order was placed (${orderDate}).`,
+    );
+  }
+  const dueDate = form.response_due_date.trim();
+  if (isValidDate(dueDate) && isValidDate(openedDate) && dueDate < openedDate) {
+    add(
+      "dates",
+      "response_due_date",
+      "The due date is before the dispute was opened.",
+    );
+  }
+  return issues;
+};
+
+const loadValidationLevels = () => {
+  const levels = Object.fromEntries(
+    VALIDATION_RULES.map((rule) => [rule.id, rule.defaultLevel]),
+  ) as Record<ValidationRuleId, ValidationLevel>;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(VALIDATION_STORAGE_KEY) ?? "{}",
+    ) as unknown;
+    if (isRecord(stored)) {
+      VALIDATION_RULES.forEach((rule) => {
+        const level = stored[rule.id];
+        if (level === "error" || level === "warning" || level === "off") {
+          levels[rule.id] = level;
+        }
+      });
+    }
+  } catch (error) {
+    console.error(error);
+  }
+  return levels;
+};
+
+const getExhibitLabel = (index: number) => {
+  let label = "";
+  let remaining = index;
+  do {
+    label = String.fromCharCode(65 + (remaining % 26)) + label;
+    remaining = Math.floor(remaining / 26) - 1;
+  } while (remaining >= 0);
+  return label;
+};
+
+const buildExhibitLabels = (attachments: AttachmentItem[]) =>
+  new Map(
+    attachments.map((attachment, index) => [
+      attachment.id,
+      getExhibitLabel(index),
+    ]),
+  );
+
+const getTimelineExhibitLabels = (
+  entry: TimelineEntry,
+  exhibitLabels: Map<string, string>,
+) =>
+  entry.attachmentIds
+    .map((id) => exhibitLabels.get(id))
+    .filter((label): label is string => Boolean(label))
+    .sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+const TIMELINE_CATEGORY_ORDER: TimelineCategory[] = [
+  "login",
+  "order",
+  "payment",
+  "fulfillment",
+  "delivery",
+  "contact",
+  "refund",
+];
+
+const getTimelineTimestamp = (
+  entry: Pick<TimelineEntry, "date" | "time" | "timeZone">,
+) =>
+  zonedDateTimeToUtc(entry.date, entry.time, entry.timeZone);
+
+const sortTimeline = (entries: TimelineEntry[]) =>
+  [...entries].sort((a, b) => {
+    const aTime = getTimelineTimestamp(a);
+    const bTime = getTimelineTimestamp(b);
+    if (aTime === null || bTime === null) {
+      return aTime !== null ? -1 : bTime !== null ? 1 : 0;
+    }
+    if (aTime !== bTime) {
+      return aTime - bTime;
+    }
+    return (
+      TIMELINE_CATEGORY_ORDER.indexOf(a.category) -
+      TIMELINE_CATEGORY_ORDER.indexOf(b.category)
+    );
+  });
+
+const TIMELINE_SEQUENCE_RULES: Array<{
+  category: TimelineCategory;
+  after: TimelineCategory[];
+  message: string;
+}> = [
+  {
+    category: "payment",
+    after: ["order"],
+    message: "Payment is dated before the order was placed.",
+  },
+  {
+    category: "fulfillment",
+    after: ["order"],
+    message: "Fulfillment is dated before the order was placed.",
+  },
+  {
+    category: "delivery",
+    after: ["fulfillment"],
+    message: "Delivery is dated before the shipment.",
+  },
+  {
+    category: "delivery",
+    after: ["order"],
+    message: "Delivery is dated before the order was placed.",
+  },
+  {
+    category: "refund",
+    after: ["payment", "order"],
+    message: "Refund is dated before the payment was taken.",
+  },
+];
+
+const isTimelineEntryBefore = (entry: TimelineEntry, other: TimelineEntry) => {
+  if (!isValidTime(entry.time) || !isValidTime(other.time)) {
+    return entry.date < other.date;
+  }
+  const entryTime = getTimelineTimestamp(entry);
+  const otherTime = getTimelineTimestamp(other);
+  return entryTime !== null && otherTime !== null && entryTime < otherTime;
+};
+
+const getTimelineEntryErrors = (entry: TimelineDraft) => {
+  const issues: string[] = [];
+  if (!isValidDate(entry.date)) {
+    issues.push("Date must be a valid YYYY-MM-DD date.");
+  }
+  if (hasValue(entry.time) && !isValidTime(entry.time)) {
+    issues.push("Time must be in 24-hour HH:MM format.");
+  }
+  if (hasValue(entry.timeZone) && !isValidTimeZone(entry.timeZone.trim())) {
+    issues.push(`Unknown time zone "${entry.timeZone.trim()}".`);
+  }
+  return issues;
+};
+
+const validateTimeline = (entries: TimelineEntry[]) => {
+  const issues = new Map<string, string[]>();
+  const latest = Date.now() + 24 * 60 * 60 * 1000;
+  entries.forEach((entry) => {
+    const entryIssues = getTimelineEntryErrors(entry);
+    const timestamp = getTimelineTimestamp(entry);
+    if (timestamp !== null && timestamp > latest) {
+      entryIssues.push("Date is in the future.");
+    }
+    if (isValidDate(entry.date)) {
+      TIMELINE_SEQUENCE_RULES.filter(
+        (rule) => rule.category === entry.category,
+      ).forEach((rule) => {
+        const earlier = entries.some(
+          (other) =>
+            rule.after.includes(other.category) &&
+            isValidDate(other.date) &&
+            isTimelineEntryBefore(entry, other),
+        );
+        if (earlier) {
+          entryIssues.push(rule.message);
+        }
+      });
+    }
+    if (entryIssues.length > 0) {
+      issues.set(entry.id, entryIssues);
+    }
+  });
+  return issues;
+};
+
+const formatTimelineTimestamp = (
+  entry: TimelineEntry,
+  format: OutputFormat,
+) => {
+  const timestamp = getTimelineTimestamp(entry);
+  if (timestamp === null) {
+    return [entry.date, entry.time, entry.timeZone]
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join(" ");
+  }
+  return isValidTime(entry.time)
+    ? formatDateTime(timestamp, format)
+    : formatDate(entry.date, format);
+};
+
+const formatTimelineEvent = (entry: TimelineEntry, format: OutputFormat) => {
+  const description = normalizeSentenceCase(entry.description.trim());
+  const source = hasValue(entry.source)
+    ? ` (source: ${entry.source.trim()})`
+    : "";
+  const category = getTimelineCategoryLabel(entry.category);
+  return `${formatTimelineTimestamp(entry, format)} — ${category}: ${description}${source}`;
+};
+
+const formatTimelineEntry = (
+  entry: TimelineEntry,
+  exhibitLabels: Map<string, string>,
+  format: OutputFormat,
+) => {
+  const normalized = formatTimelineEvent(entry, format);
+  const labels = getTimelineExhibitLabels(entry, exhibitLabels);
+  if (labels.length === 0) {
+    return normalized;
+  }
+  const reference =
+    labels.length === 1
+      ? `Exhibit ${labels[0]}`
+      : `Exhibits ${labels.join(", ")}`;
+  return `${normalized} (see ${reference})`;
+};
+
+const sortCorrespondence = (messages: ParsedEmail[]) =>
+  [...messages].sort((a, b) => {
+    if (!a.date || !b.date) {
+      return a.date ? -1 : b.date ? 1 : 0;
+    }
+    return a.date.localeCompare(b.date);
+  });
+
+const formatCorrespondenceDate = (date: string, format: OutputFormat) =>
+  date && !Number.isNaN(Date.parse(date))
+    ? formatDateTime(new Date(date), format)
+    : "Date unknown";
+
+const formatCorrespondenceText = (
+  messages: ParsedEmail[],
+  format: OutputFormat,
+) =>
+  [
+    describeTimeZone(format),
+    "",
+    ...messages.map((message) =>
+      [
+        `Date: ${formatCorrespondenceDate(message.date, format)}`,
+        `From: ${message.from || "—"}`,
+        `To: ${message.to || "—"}`,
+        `Subject: ${message.subject || "—"}`,
+        "",
+        message.body,
+        ...(message.images.length > 0
+          ? ["", `[${message.images.length} inline image(s) shown in the PDF]`]
+          : []),
+      ].join("\n"),
+    ),
+  ].join("\n\n----------------------------------------\n\n");
+
+function EvidenceApp({ caseId }: { caseId: string }) {
   const [form, setForm] = useState<FormState>(initialState);
-  const [timelineInput, setTimelineInput] = useState("");
+  const [timelineDraft, setTimelineDraft] =
+    useState<TimelineDraft>(createTimelineDraft);
+  const [caseStatus, setCaseStatus] = useState<
+    "loading" | "missing" | "ready"
+  >("loading");
+  const [caseDetails, setCaseDetails] = useState<CaseDetails>(() =>
+    getCaseDetails(createCaseRecord(caseId)),
+  );
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [pdfBytes, setPdfBytes] = useState<Uint8Array | null>(null);
   const [pdfStats, setPdfStats] = useState<PdfStats | null>(null);
+  const [pdfParts, setPdfParts] = useState<PdfPart[]>([]);
   const [pdfDirty, setPdfDirty] = useState(true);
   const [isZipping, setIsZipping] = useState(false);
   const [zipError, setZipError] = useState<string | null>(null);
@@ -401,7 +2507,42 @@ function EvidenceApp() {
   const [isVerifying, setIsVerifying] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [correspondenceError, setCorrespondenceError] = useState<
+    string | null
+  >(null);
+  const [today, setToday] = useState(getTodayDate);
+  const [archivalExport, setArchivalExport] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionOptions>({
+    enabled: false,
+    maskIpAddress: false,
+  });
+  const [exportProfileId, setExportProfileId] =
+    useState<ExportProfileId>("generic");
+  const [optimizeImages, setOptimizeImages] = useState(true);
+  const [includeScoreInSummary, setIncludeScoreInSummary] = useState(false);
+  const [customEvidence, setCustomEvidence] =
+    useState<CustomEvidenceEntry[]>(loadCustomEvidence);
+  const [validationLevels, setValidationLevels] =
+    useState<Record<ValidationRuleId, ValidationLevel>>(loadValidationLevels);
+  const [customEvidenceDraft, setCustomEvidenceDraft] =
+    useState<CustomEvidenceDraft>(initialCustomEvidenceDraft);
+  const [customEvidenceError, setCustomEvidenceError] = useState<
+    string | null
+  >(null);
+  const [branding, setBranding] = useState<BrandingProfile>(initialBranding);
+  const [exhibitFiles, setExhibitFiles] = useState<Map<string, File>>(
+    () => new Map(),
+  );
+  const [optimizationReport, setOptimizationReport] =
+    useState<OptimizationReport | null>(null);
   const verifyInFlightRef = useRef<Promise<boolean> | null>(null);
+  const loadedCaseRef = useRef<{
+    form: FormState;
+    timelineDraft: TimelineDraft;
+    attachments: AttachmentItem[];
+    caseDetails: CaseDetails;
+  } | null>(null);
+  const pendingSaveRef = useRef<Omit<CaseRecord, "savedAt"> | null>(null);
 
   const orderIdTrimmed = form.order_id.trim();
   const isDev = import.meta.env.DEV;
@@ -412,15 +2553,50 @@ function EvidenceApp() {
   const humanVerifyMessage = "Verify you’re human to export.";
   const hasHumanToken = isDev || Boolean(turnstileToken);
   const canGeneratePdf = hasHumanToken && !isGeneratingPdf && !isVerifying;
-  const canExportZip =
-    orderIdTrimmed.length > 0 &&
-    hasHumanToken &&
-    !isZipping &&
-    !isVerifying &&
-    !pdfDirty;
   const reason = form.dispute_reason;
   const reasonLabel = getReasonLabel(reason);
-  const evidenceItems = buildEvidenceItems(reason, form, attachments);
+  const reasonCode = getReasonCode(form);
+  const responseDeadline = getResponseDeadline(form);
+  const outputFormat = getOutputFormat(form);
+  const daysUntilDue = responseDeadline
+    ? daysBetween(today, responseDeadline.dueDate)
+    : null;
+  const deadlineLevel =
+    daysUntilDue === null
+      ? null
+      : daysUntilDue < 0
+        ? "overdue"
+        : daysUntilDue <= 2
+          ? "urgent"
+          : daysUntilDue <= 7
+            ? "soon"
+            : "ok";
+  const deadlineMessage =
+    daysUntilDue === null
+      ? ""
+      : daysUntilDue < 0
+        ? `The response deadline passed ${-daysUntilDue} day${
+            daysUntilDue === -1 ? "" : "s"
+          } ago. Late evidence is normally rejected; confirm with your processor before submitting.`
+        : daysUntilDue === 0
+          ? "Evidence is due today. Submit before your processor's cutoff."
+          : `${daysUntilDue} day${daysUntilDue === 1 ? "" : "s"} left to respond${
+              daysUntilDue <= 2 ? " — submit now." : "."
+            }`;
+  const deadlineWarnings = [
+    responseDeadline?.source === "processor" &&
+    responseDeadline.networkDueDate &&
+    responseDeadline.dueDate > responseDeadline.networkDueDate
+      ? `The processor due date is after the ${responseDeadline.windowDays}-day network window (${responseDeadline.networkDueDate}). Double-check it with your processor.`
+      : "",
+  ].filter(Boolean);
+  const evidenceItems = buildEvidenceItems(
+    reason,
+    form,
+    attachments,
+    customEvidence,
+  );
+  const evidenceScore = scoreEvidence(evidenceItems, form);
   const criticalEvidence = evidenceItems.filter(
     (item) => item.priority === "critical",
   );
@@ -432,18 +2608,102 @@ function EvidenceApp() {
   ).length;
   const showChecklistWarning = missingRecommendedCount >= 2;
   const hasAttachments = attachments.length > 0;
+  const customAttachmentTags = Array.from(
+    new Set(
+      customEvidence.flatMap((entry) =>
+        entry.rule.kind === "attachment_tag" ? [entry.rule.tag] : [],
+      ),
+    ),
+  ).filter((tag) => !ATTACHMENT_TAGS.some((item) => item.value === tag));
+  const exportForm = redaction.enabled
+    ? redactFormState(form, redaction)
+    : form;
+  const redactAttachmentText = redaction.enabled
+    ? createTextRedactor(redaction, {
+        email: form.customer_email,
+        ipAddress: form.ip_address,
+      })
+    : (text: string) => text;
+  const exhibitLabels = buildExhibitLabels(attachments);
+  const timelineIssues = validateTimeline(form.timeline);
+  const correspondenceLabel = getExhibitLabel(attachments.length);
   const attachmentsTotalBytes = attachments.reduce(
     (total, item) => total + item.file.size,
     0,
   );
-  const showPdfLimitWarning =
-    pdfStats !== null &&
-    (pdfStats.sizeBytes > PDF_SIZE_WARNING_BYTES ||
-      pdfStats.pageCount > PDF_PAGE_WARNING_COUNT);
-  const showAttachmentSizeWarning =
-    attachmentsTotalBytes > ATTACHMENTS_WARNING_BYTES;
+  const exportProfile = EXPORT_PROFILES[exportProfileId];
+  const getExportAttachments = (files: Map<string, File>) =>
+    attachments.map((attachment) => {
+      const file = files.get(attachment.id) ?? attachment.file;
+      const name = redactAttachmentText(file.name).replace(/\*/g, "x");
+      return {
+        ...attachment,
+        note: redactAttachmentText(attachment.note),
+        file:
+          name === file.name
+            ? file
+            : new File([file], name, {
+                type: file.type,
+                lastModified: file.lastModified,
+              }),
+      };
+    });
+  const exportIssues = getExportIssues(
+    exportProfile,
+    pdfStats,
+    getExportAttachments(exhibitFiles),
+    (
+      exportForm.rebuttal_letter.trim() ||
+      buildRebuttalLetter(exportForm, attachments)
+    ).length,
+  );
+  const fieldIssues = validateForm(form, today).filter(
+    (issue) => validationLevels[issue.rule] !== "off",
+  );
+  const renderFieldIssues = (field: TextFieldKey) =>
+    fieldIssues
+      .filter((issue) => issue.field === field)
+      .map((issue) => (
+        <p
+          key={issue.message}
+          className={`text-xs ${
+            validationLevels[issue.rule] === "error"
+              ? "text-red-600"
+              : "text-amber-600"
+          }`}
+        >
+          {issue.message}
+        </p>
+      ));
+  fieldIssues.forEach((issue) => {
+    exportIssues.push({
+      level: validationLevels[issue.rule] === "error" ? "error" : "warning",
+      category: "fields",
+      message: `${
+        VALIDATED_FIELD_LABELS[issue.field] ?? getFieldLabel(issue.field)
+      }: ${issue.message}`,
+    });
+  });
+  const exportBlocked = exportIssues.some((issue) => issue.level === "error");
+  const hasMergedPdfs = attachments.some(
+    (item) => getAttachmentKind(item.file) === "pdf",
+  );
+  const profileBlocked = exportIssues.some(
+    (issue) => issue.level === "error" && issue.category !== "fields",
+  );
+  const canExportZip =
+    orderIdTrimmed.length > 0 &&
+    hasHumanToken &&
+    !isZipping &&
+    !isVerifying &&
+    !pdfDirty &&
+    !exportBlocked;
   const pdfEstimateText = pdfStats
-    ? `Last generated PDF: ${formatBytes(pdfStats.sizeBytes)} · ${pdfStats.pageCount} pages`
+    ? `Last generated PDF: ${formatBytes(pdfStats.sizeBytes)} · ${pdfStats.pageCount} pages${
+        pdfStats.partSizes.length > 0
+          ? ` · split into ${pdfStats.partSizes.length} parts`
+          : ""
+      }`
     : "Generate a PDF to estimate size and page count.";
   const attachmentsEstimateText = `Attachments total: ${formatBytes(
     attachmentsTotalBytes,
@@ -457,6 +2717,140 @@ function EvidenceApp() {
     };
   }, [pdfUrl]);
 
+  useEffect(() => {
+    const timer = window.setInterval(() => setToday(getTodayDate()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    try {
+      if (customEvidence.length === 0) {
+        localStorage.removeItem(CUSTOM_EVIDENCE_STORAGE_KEY);
+      } else {
+        localStorage.setItem(
+          CUSTOM_EVIDENCE_STORAGE_KEY,
+          JSON.stringify(customEvidence),
+        );
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }, [customEvidence]);
+
+  useEffect(() => {
+    try {
+      if (
+        VALIDATION_RULES.every(
+          (rule) => validationLevels[rule.id] === rule.defaultLevel,
+        )
+      ) {
+        localStorage.removeItem(VALIDATION_STORAGE_KEY);
+      } else {
+        localStorage.setItem(
+          VALIDATION_STORAGE_KEY,
+          JSON.stringify(validationLevels),
+        );
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }, [validationLevels]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDraft<Partial<CaseRecord>>(caseId)
+      .then((stored) => {
+        if (cancelled) {
+          return;
+        }
+        if (!stored) {
+          setCaseStatus("missing");
+          return;
+        }
+        const record = toCaseRecord(caseId, stored);
+        const details = getCaseDetails(record);
+        loadedCaseRef.current = {
+          form: record.form,
+          timelineDraft: record.timelineDraft,
+          attachments: record.attachments,
+          caseDetails: details,
+        };
+        setForm(record.form);
+        setTimelineDraft(record.timelineDraft);
+        setAttachments(record.attachments);
+        setCaseDetails(details);
+        setDraftSavedAt(record.savedAt);
+        setCaseStatus("ready");
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!cancelled) {
+          setDraftError(
+            "This case could not be loaded from browser storage. Changes will not be saved.",
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId]);
+
+  const savePendingCase = () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) {
+      return null;
+    }
+    pendingSaveRef.current = null;
+    const savedAt = new Date().toISOString();
+    return saveDraft<CaseRecord>(pending.id, { ...pending, savedAt }).then(
+      () => savedAt,
+    );
+  };
+
+  useEffect(() => {
+    const loaded = loadedCaseRef.current;
+    const isDirty =
+      !loaded ||
+      loaded.form !== form ||
+      loaded.timelineDraft !== timelineDraft ||
+      loaded.attachments !== attachments ||
+      loaded.caseDetails !== caseDetails;
+    if (caseStatus !== "ready" || !isDirty) {
+      return;
+    }
+    loadedCaseRef.current = null;
+    pendingSaveRef.current = {
+      ...caseDetails,
+      id: caseId,
+      form,
+      timelineDraft,
+      attachments,
+    };
+    const timer = window.setTimeout(() => {
+      savePendingCase()
+        ?.then((savedAt) => {
+          setDraftSavedAt(savedAt);
+          setDraftError(null);
+        })
+        .catch((error) => {
+          console.error(error);
+          setDraftError(
+            "Autosave failed, so this case will not survive a refresh. Your browser may be out of storage or blocking IndexedDB.",
+          );
+        });
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [caseId, caseDetails, form, timelineDraft, attachments, caseStatus]);
+
+  // Leaving the case (back to the list or straight to another case) would
+  // otherwise drop whatever the debounce had not written yet.
+  useEffect(
+    () => () => {
+      savePendingCase()?.catch((error) => console.error(error));
+    },
+    [],
+  );
+
   useEffect(() => {
     if (pdfUrl) {
       URL.revokeObjectURL(pdfUrl);
@@ -464,8 +2858,27 @@ function EvidenceApp() {
     setPdfUrl(null);
     setPdfBytes(null);
     setPdfStats(null);
+    setPdfParts([]);
     setPdfDirty(true);
-  }, [form, attachments]);
+    setExhibitFiles(new Map());
+    setOptimizationReport(null);
+  }, [
+    form,
+    attachments,
+    archivalExport,
+    redaction,
+    exportProfileId,
+    optimizeImages,
+    branding,
+    customEvidence,
+  ]);
+
+  const updateBranding = <K extends keyof BrandingProfile>(
+    field: K,
+    value: BrandingProfile[K],
+  ) => {
+    setBranding((prev) => ({ ...prev, [field]: value }));
+  };
 
   const updateField = <K extends keyof FormState>(
     field: K,
@@ -474,23 +2887,243 @@ function EvidenceApp() {
     setForm((prev) => ({ ...prev, [field]: value }));
   };
 
+  const selectDisputeReason = (reason: DisputeReason) => {
+    setForm((prev) => ({
+      ...prev,
+      dispute_reason: reason,
+      reason_code:
+        getReasonCode(prev)?.reason === reason ? prev.reason_code : "",
+    }));
+  };
+
+  const selectCardNetwork = (network: CardNetwork | "") => {
+    setForm((prev) => ({ ...prev, card_network: network, reason_code: "" }));
+  };
+
+  const selectReasonCode = (code: string) => {
+    setForm((prev) => {
+      const match = REASON_CODES.find(
+        (item) => item.network === prev.card_network && item.code === code,
+      );
+      return {
+        ...prev,
+        reason_code: match ? match.code : "",
+        dispute_reason: match ? match.reason : prev.dispute_reason,
+      };
+    });
+  };
+
+  const updateCaseDetails = <K extends keyof CaseDetails>(
+    field: K,
+    value: CaseDetails[K],
+  ) => {
+    setCaseDetails((prev) =>
+      field === "status"
+        ? applyCaseStatus(prev, value as CaseStatus, today)
+        : { ...prev, [field]: value },
+    );
+  };
+
+  const updateTimelineDraft = <K extends keyof TimelineDraft>(
+    field: K,
+    value: TimelineDraft[K],
+  ) => {
+    setTimelineDraft((prev) => ({ ...prev, [field]: value }));
+    setTimelineError(null);
+  };
+
   const addTimelineEvent = () => {
-    const trimmed = timelineInput.trim();
-    if (!trimmed) {
+    const entry: TimelineEntry = {
+      id: createId(),
+      date: timelineDraft.date.trim(),
+      time: timelineDraft.time.trim(),
+      timeZone: timelineDraft.timeZone.trim(),
+      category: timelineDraft.category,
+      source: timelineDraft.source.trim(),
+      description: timelineDraft.description.trim(),
+      attachmentIds: [],
+    };
+    if (!entry.description) {
+      setTimelineError("Describe what happened before adding the event.");
+      return;
+    }
+    const issues = getTimelineEntryErrors(entry);
+    if (issues.length > 0) {
+      setTimelineError(issues.join(" "));
       return;
     }
 
     setForm((prev) => ({
       ...prev,
-      timeline: [...prev.timeline, trimmed],
+      timeline: sortTimeline([...prev.timeline, entry]),
+    }));
+    setTimelineDraft((prev) => ({
+      ...prev,
+      time: "",
+      source: "",
+      description: "",
+    }));
+    setTimelineError(null);
+  };
+
+  const removeTimelineEvent = (id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      timeline: prev.timeline.filter((entry) => entry.id !== id),
     }));
-    setTimelineInput("");
   };
 
-  const removeTimelineEvent = (index: number) => {
+  const toggleTimelineExhibit = (entryId: string, attachmentId: string) => {
     setForm((prev) => ({
       ...prev,
-      timeline: prev.timeline.filter((_, i) => i !== index),
+      timeline: prev.timeline.map((entry) => {
+        if (entry.id !== entryId) {
+          return entry;
+        }
+        const linked = entry.attachmentIds.includes(attachmentId);
+        return {
+          ...entry,
+          attachmentIds: linked
+            ? entry.attachmentIds.filter((id) => id !== attachmentId)
+            : [...entry.attachmentIds, attachmentId],
+        };
+      }),
+    }));
+  };
+
+  const importCorrespondence = async (files: File[]) => {
+    const emailFiles = files.filter(isEmailFile);
+    setCorrespondenceError(
+      emailFiles.length < files.length
+        ? "Only .eml and .mbox files can be imported."
+        : null,
+    );
+
+    try {
+      const parsed = (await Promise.all(emailFiles.map(parseEmailFile))).flat();
+      setForm((prev) => {
+        const messages = new Map(
+          prev.correspondence.map((message) => [message.messageId, message]),
+        );
+        parsed.forEach((message) => messages.set(message.messageId, message));
+        return {
+          ...prev,
+          correspondence: sortCorrespondence([...messages.values()]),
+        };
+      });
+    } catch (error) {
+      console.error(error);
+      setCorrespondenceError("Failed to read one of the email files.");
+    }
+  };
+
+  const updateCustomEvidenceDraft = <K extends keyof CustomEvidenceDraft>(
+    field: K,
+    value: CustomEvidenceDraft[K],
+  ) => {
+    setCustomEvidenceDraft((prev) => ({ ...prev, [field]: value }));
+    setCustomEvidenceError(null);
+  };
+
+  const setCustomEvidencePriority = (
+    reason: DisputeReason,
+    priority: EvidencePriority | "",
+  ) => {
+    setCustomEvidenceDraft((prev) => {
+      const priorities = { ...prev.priorities };
+      if (priority) {
+        priorities[reason] = priority;
+      } else {
+        delete priorities[reason];
+      }
+      return { ...prev, priorities };
+    });
+  };
+
+  const addCustomEvidence = () => {
+    const draft = customEvidenceDraft;
+    const label = draft.label.trim();
+    if (!label) {
+      setCustomEvidenceError("Give the evidence item a label.");
+      return;
+    }
+    if (draft.ruleKind === "attachment_tag" && !normalizeTag(draft.tag)) {
+      setCustomEvidenceError("Enter the attachment tag to look for.");
+      return;
+    }
+    if (Object.keys(draft.priorities).length === 0) {
+      setCustomEvidenceError(
+        "Choose a priority for at least one dispute reason.",
+      );
+      return;
+    }
+
+    const rule: CustomEvidenceRule =
+      draft.ruleKind === "field"
+        ? { kind: "field", field: draft.field }
+        : draft.ruleKind === "attachment_tag"
+          ? { kind: "attachment_tag", tag: normalizeTag(draft.tag) }
+          : { kind: "timeline_category", category: draft.category };
+    setCustomEvidence((prev) => [
+      ...prev,
+      {
+        id: `custom-${createId()}`,
+        label,
+        tooltip: draft.tooltip.trim(),
+        rule,
+        priorities: draft.priorities,
+      },
+    ]);
+    setCustomEvidenceDraft(initialCustomEvidenceDraft);
+    setCustomEvidenceError(null);
+  };
+
+  const removeCustomEvidence = (id: string) => {
+    setCustomEvidence((prev) => prev.filter((entry) => entry.id !== id));
+  };
+
+  const exportCustomEvidence = () => {
+    const blob = new Blob(
+      [JSON.stringify({ version: 1, items: customEvidence }, null, 2)],
+      { type: "application/json" },
+    );
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.download = "evidence-catalog.json";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const importCustomEvidence = async (file: File) => {
+    try {
+      const imported = parseCustomEvidence(JSON.parse(await file.text()));
+      setCustomEvidence((prev) => {
+        const entries = new Map(prev.map((entry) => [entry.id, entry]));
+        imported.forEach((entry) => entries.set(entry.id, entry));
+        return [...entries.values()];
+      });
+      setCustomEvidenceError(null);
+    } catch (error) {
+      console.error(error);
+      setCustomEvidenceError(
+        error instanceof SyntaxError
+          ? "That file is not valid JSON."
+          : error instanceof Error
+            ? error.message
+            : "Failed to import the evidence catalog.",
+      );
+    }
+  };
+
+  const removeCorrespondence = (messageId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      correspondence: prev.correspondence.filter(
+        (message) => message.messageId !== messageId,
+      ),
     }));
   };
 
@@ -500,9 +3133,10 @@ function EvidenceApp() {
     }
 
     const nextItems = Array.from(files).map((file) => ({
-      id: createAttachmentId(),
+      id: createId(),
       file,
       note: "",
+      tags: [],
     }));
 
     setAttachments((prev) => [...prev, ...nextItems]);
@@ -516,8 +3150,49 @@ function EvidenceApp() {
     );
   };
 
+  const toggleAttachmentTag = (id: string, tag: string) => {
+    setAttachments((prev) =>
+      prev.map((item) =>
+        item.id === id
+          ? {
+              ...item,
+              tags: item.tags.includes(tag)
+                ? item.tags.filter((value) => value !== tag)
+                : [...item.tags, tag],
+            }
+          : item,
+      ),
+    );
+  };
+
+  const moveAttachment = (id: string, offset: -1 | 1) => {
+    setAttachments((prev) => {
+      const index = prev.findIndex((item) => item.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
   const removeAttachment = (id: string) => {
     setAttachments((prev) => prev.filter((item) => item.id !== id));
+    setForm((prev) => ({
+      ...prev,
+      timeline: prev.timeline.map((entry) =>
+        entry.attachmentIds.includes(id)
+          ? {
+              ...entry,
+              attachmentIds: entry.attachmentIds.filter(
+                (attachmentId) => attachmentId !== id,
+              ),
+            }
+          : entry,
+      ),
+    }));
   };
 
   const sanitizeFilenamePart = (value: string) => {
@@ -528,6 +3203,28 @@ function EvidenceApp() {
     return cleaned || "unknown";
   };
 
+  const getUploadBaseName = () =>
+    `${exportProfile.id}-${sanitizeFilenamePart(
+      form.processor_case_number || orderIdTrimmed,
+    )}`;
+
+  const getPdfFilename = () =>
+    exportProfile.uploadMode === "packet"
+      ? "chargeback-evidence.pdf"
+      : getProcessorSafeFilename(
+          `${getUploadBaseName()}-evidence.pdf`,
+          exportProfile.maxFilenameLength,
+        );
+
+  const getExhibitFilename = (attachment: AttachmentItem) =>
+    `Exhibit-${exhibitLabels.get(attachment.id)}-${attachment.file.name}`;
+
+  const getPartFilename = (index: number, count: number) =>
+    getProcessorSafeFilename(
+      `${getUploadBaseName()}-evidence-part-${index + 1}-of-${count}.pdf`,
+      exportProfile.maxFilenameLength,
+    );
+
   const csvEscape = (value: string) => `"${value.replace(/"/g, '""')}"`;
 
   const verifyTurnstileToken = async () => {
@@ -584,20 +3281,66 @@ function EvidenceApp() {
     return verifyPromise;
   };
 
-  const createPdfBytes = async () => {
+  const getRebuttalLetterText = (source: FormState) =>
+    source.rebuttal_letter.trim() || buildRebuttalLetter(source, attachments);
+
+  const generateRebuttalDraft = () => {
+    const draft = buildRebuttalLetter(form, attachments);
+    if (
+      hasValue(form.rebuttal_letter) &&
+      form.rebuttal_letter.trim() !== draft &&
+      !window.confirm("Replace your edited letter with a new draft?")
+    ) {
+      return;
+    }
+    updateField("rebuttal_letter", draft);
+  };
+
+  const createPdfBytes = async (
+    form: FormState,
+    files: Map<string, File> = new Map(),
+  ) => {
     const pdfDoc = await PDFDocument.create();
-    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const exportAttachments = getExportAttachments(files);
+    const letterText = getRebuttalLetterText(form);
+    const layout = await createPdfTextLayout(
+      pdfDoc,
+      [
+        JSON.stringify(form),
+        letterText,
+        branding.companyAddress,
+        branding.supportContact,
+        branding.watermarkText,
+        ...exportAttachments.map((item) => `${item.file.name} ${item.note}`),
+        ...customEvidence.map((item) => item.label),
+        ...exportAttachments.flatMap((item) =>
+          item.tags.map(getAttachmentTagLabel),
+        ),
+        getFormatSample(outputFormat),
+      ].join("\n"),
+    );
+    const accentColor = parseHexColor(branding.accentColor);
+    let logo: PDFImage | null = null;
+    if (branding.logo) {
+      try {
+        logo = await embedLogo(pdfDoc, branding.logo, archivalExport);
+      } catch (error) {
+        console.error(error);
+      }
+    }
 
     const margin = 50;
     const defaultSize = 12;
     const lineGap = 6;
-    const generatedAt = new Date().toLocaleString();
+    const createdAt = new Date();
+    const generatedAt = formatDateTime(createdAt, outputFormat);
     const reasonValue = form.dispute_reason;
     const reasonText = getReasonLabel(reasonValue);
     const evidenceItemsForReason = buildEvidenceItems(
       reasonValue,
       form,
       attachments,
+      customEvidence,
     );
     const evidenceByStrength = sortEvidenceByStrength(evidenceItemsForReason);
     const evidenceByPriority = sortEvidenceByPriority(evidenceItemsForReason);
@@ -605,29 +3348,98 @@ function EvidenceApp() {
       .filter((item) => item.present)
       .slice(0, 3);
     const timelineHighlights = form.timeline
-      .map((event) => normalizeTimelineEvent(event).trim())
+      .map((entry) =>
+        formatTimelineEntry(entry, exhibitLabels, outputFormat).trim(),
+      )
       .filter(Boolean)
       .slice(0, 3);
 
     const coverPage = pdfDoc.addPage();
-    const { height: coverHeight } = coverPage.getSize();
+    const { width, height: coverHeight } = coverPage.getSize();
+    const contentWidth = width - margin * 2;
     let coverY = coverHeight - margin;
 
-    const drawCoverLine = (text: string, size = defaultSize) => {
-      coverPage.drawText(text, {
-        x: margin,
-        y: coverY,
-        size,
-        font,
-        color: rgb(0, 0, 0),
+    const drawCoverLine = (
+      text: string,
+      size = defaultSize,
+      color = rgb(0, 0, 0),
+    ) => {
+      layout.wrap(text, size, contentWidth).forEach((line) => {
+        layout.draw(coverPage, line, { x: margin, y: coverY, size, color });
+        coverY -= size + lineGap;
       });
-      coverY -= size + lineGap;
     };
 
-    drawCoverLine("Chargeback Evidence", 20);
+    const letterheadTop = coverY + 10;
+    let letterheadBottom = letterheadTop;
+    if (logo) {
+      const logoSize = logo.scaleToFit(160, 48);
+      coverPage.drawImage(logo, {
+        x: margin,
+        y: letterheadTop - logoSize.height,
+        width: logoSize.width,
+        height: logoSize.height,
+      });
+      letterheadBottom = letterheadTop - logoSize.height;
+    }
+    const letterheadLines = [
+      { text: form.merchant_name.trim(), size: 14, color: accentColor },
+      ...branding.companyAddress
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => ({ text: line, size: 9, color: rgb(0.3, 0.3, 0.3) })),
+      {
+        text: branding.supportContact.trim(),
+        size: 9,
+        color: rgb(0.3, 0.3, 0.3),
+      },
+    ].filter((line) => line.text);
+    let letterheadY = letterheadTop;
+    letterheadLines.forEach((line) => {
+      letterheadY -= line.size;
+      const text = layout.fit(line.text, line.size, contentWidth / 2);
+      layout.draw(coverPage, text, {
+        x: width - margin - layout.measure(text, line.size),
+        y: letterheadY,
+        size: line.size,
+        color: line.color,
+      });
+      letterheadY -= 3;
+    });
+    letterheadBottom = Math.min(letterheadBottom, letterheadY);
+    if (letterheadBottom < letterheadTop) {
+      coverPage.drawLine({
+        start: { x: margin, y: letterheadBottom - 8 },
+        end: { x: width - margin, y: letterheadBottom - 8 },
+        thickness: 2,
+        color: accentColor,
+      });
+      coverY = letterheadBottom - 36;
+    }
+
+    drawCoverLine("Chargeback Evidence", 20, accentColor);
     coverY -= 6;
     drawCoverLine("Cover Summary", 16);
     drawCoverLine(`Dispute Reason: ${reasonText || "—"}`);
+    if (reasonCode) {
+      drawCoverLine(`Reason Code: ${formatReasonCode(reasonCode)}`);
+      drawCoverLine(`Remedy: ${reasonCode.remedy}`, 10, rgb(0.3, 0.3, 0.3));
+    }
+    if (hasValue(form.dispute_opened_date)) {
+      drawCoverLine(
+        `Dispute Opened: ${formatDate(form.dispute_opened_date, outputFormat)}`,
+      );
+    }
+    if (responseDeadline) {
+      drawCoverLine(
+        `Response Due: ${describeResponseDeadline(
+          responseDeadline,
+          outputFormat,
+        )}`,
+      );
+    }
+    drawCoverLine(describeTimeZone(outputFormat), 10, rgb(0.3, 0.3, 0.3));
     coverY -= 6;
     drawCoverLine("Top evidence included", 14);
     if (strongestIncluded.length === 0) {
@@ -659,141 +3471,674 @@ function EvidenceApp() {
       }
     };
 
-    const drawLine = (text: string, size = defaultSize) => {
-      ensureSpace(1, size);
-      page.drawText(text, {
-        x: margin,
-        y,
-        size,
-        font,
-        color: rgb(0, 0, 0),
-      });
-      y -= size + lineGap;
-    };
-
     const drawLines = (lines: string[], size = defaultSize, indent = 0) => {
       for (const line of lines) {
         ensureSpace(1, size);
-        page.drawText(line, {
-          x: margin + indent,
-          y,
-          size,
-          font,
-          color: rgb(0, 0, 0),
-        });
+        layout.draw(page, line, { x: margin + indent, y, size });
         y -= size + lineGap;
       }
     };
 
+    const drawLine = (text: string, size = defaultSize) => {
+      drawLines(layout.wrap(text, size, contentWidth), size);
+    };
+
+    const drawBullet = (text: string) => {
+      const bulletIndent = 16;
+      const [first, ...rest] = layout.wrap(
+        text,
+        defaultSize,
+        contentWidth - bulletIndent,
+      );
+      drawLines([`• ${first}`], defaultSize, 0);
+      if (rest.length > 0) {
+        drawLines(rest, defaultSize, bulletIndent);
+      }
+    };
+
+    const sectionBookmarks: PdfBookmark[] = [
+      { title: "Cover summary", page: coverPage, top: coverHeight - margin + 20 },
+      { title: "Rebuttal Letter", page, top: y + defaultSize },
+    ];
+    const exhibitBookmarks: PdfBookmark[] = [];
+    const exhibitIds: string[] = [];
+
+    letterText.split("\n").forEach((line) => drawLine(line));
+
+    const tocInsertIndex = pdfDoc.getPageCount();
+    const tocOutlinePosition = sectionBookmarks.length;
+    page = pdfDoc.addPage();
+    y = height - margin;
+
+    const drawSectionHeading = (title: string) => {
+      const size = 14;
+      ensureSpace(2, size);
+      sectionBookmarks.push({ title, page, top: y + size });
+      drawLine(title, size);
+    };
+
     drawLine("Chargeback Evidence", 20);
     y -= 8;
 
-    drawLine("Summary", 14);
+    drawSectionHeading("Summary");
     drawLine(`Merchant: ${form.merchant_name || "—"}`);
     drawLine(`Order ID: ${form.order_id || "—"}`);
+    if (hasValue(form.processor_case_number)) {
+      drawLine(`Processor Case Number: ${form.processor_case_number.trim()}`);
+    }
     drawLine(`Dispute Reason: ${reasonText || "—"}`);
-    drawLine(
-      `Amount: ${form.amount ? `${form.amount} ${form.currency}` : "—"}`,
-    );
+    if (reasonCode) {
+      drawLine(`Reason Code: ${formatReasonCode(reasonCode)}`);
+    }
+    if (hasValue(form.dispute_opened_date)) {
+      drawLine(
+        `Dispute Opened: ${formatDate(form.dispute_opened_date, outputFormat)}`,
+      );
+    }
+    if (responseDeadline) {
+      drawLine(
+        `Response Due: ${describeResponseDeadline(
+          responseDeadline,
+          outputFormat,
+        )}`,
+      );
+    }
+    drawLine(`Amount: ${describeAmount(form)}`);
 
     y -= 10;
-    drawLine("Key Evidence Summary (Prioritized for Review)", 14);
+    drawSectionHeading("Key Evidence Summary (Prioritized for Review)");
     evidenceByStrength.forEach((item) => {
-      drawLine(`• ${item.label} — ${item.present ? "Present" : "Missing"}`);
+      drawBullet(`${item.label} — ${item.present ? "Present" : "Missing"}`);
     });
 
     y -= 10;
-    drawLine("Evidence Checklist", 14);
+    drawSectionHeading("Evidence Checklist");
     evidenceByPriority.forEach((item) => {
       const priorityLabel =
         item.priority === "critical" ? "Critical" : "Recommended";
-      drawLine(
-        `• ${item.label} (${priorityLabel}) — ${
+      drawBullet(
+        `${item.label} (${priorityLabel}) — ${
           item.present ? "Present" : "Missing"
         }`,
       );
     });
+    if (reasonCode) {
+      y -= 4;
+      drawLine(`${formatReasonCode(reasonCode)} requirements:`);
+      reasonCode.requirements.forEach((requirement) => drawBullet(requirement));
+      drawBullet(`Remedy: ${reasonCode.remedy}`);
+    }
 
     y -= 10;
-    drawLine("Timeline", 14);
+    drawSectionHeading("Timeline");
+    drawLine(describeTimeZone(outputFormat), 10);
 
     if (form.timeline.length === 0) {
       drawLine("No timeline events added.");
     } else {
-      form.timeline.forEach((event) => {
-        const normalized = normalizeTimelineEvent(event);
-        const wrapped = wrapText(normalized, 90);
-        if (wrapped.length > 0) {
-          const [first, ...rest] = wrapped;
-          drawLines([`• ${first}`], defaultSize, 0);
-          if (rest.length > 0) {
-            drawLines(rest, defaultSize, 16);
-          }
-        }
+      form.timeline.forEach((entry) => {
+        drawBullet(formatTimelineEntry(entry, exhibitLabels, outputFormat));
       });
     }
 
     y -= 10;
-    drawLine("Attachment Index", 14);
-    if (attachments.length === 0) {
+    drawSectionHeading("Attachment Index");
+    if (exportAttachments.length === 0 && form.correspondence.length === 0) {
       drawLine("No attachments included.");
     } else {
-      attachments.forEach((attachment) => {
+      groupAttachmentsByCategory(exportAttachments).forEach((group) => {
+        ensureSpace(2, defaultSize);
+        drawLine(group.label);
+        group.indexes.forEach((index) => {
+          const attachment = exportAttachments[index];
+          const note = attachment.note.trim();
+          const otherTags = attachment.tags
+            .filter((tag) => tag !== group.category)
+            .map(getAttachmentTagLabel);
+          drawBullet(
+            [
+              `Exhibit ${getExhibitLabel(index)} — ${attachment.file.name}`,
+              note,
+              otherTags.length > 0 ? `Also: ${otherTags.join(", ")}` : "",
+            ]
+              .filter(Boolean)
+              .join(" — "),
+          );
+        });
+      });
+      if (form.correspondence.length > 0) {
+        drawLine("Customer correspondence");
+        drawBullet(
+          `Exhibit ${correspondenceLabel} — Customer correspondence (${form.correspondence.length} emails)`,
+        );
+      }
+    }
+
+    for (const [index, attachment] of exportAttachments.entries()) {
+      const exhibitFile = attachment.file;
+      const kind = getAttachmentKind(exhibitFile);
+      if (kind === "pdf") {
+        const separatorPage = pdfDoc.addPage();
+        const { height: separatorHeight } = separatorPage.getSize();
+        let separatorY = separatorHeight / 2 + 80;
+
+        const drawSeparatorLine = (text: string, size = defaultSize) => {
+          layout.wrap(text, size, contentWidth).forEach((line) => {
+            layout.draw(separatorPage, line, {
+              x: margin,
+              y: separatorY,
+              size,
+            });
+            separatorY -= size + lineGap;
+          });
+        };
+
         const note = attachment.note.trim();
-        const entry = note
+        const heading = note
           ? `${attachment.file.name} — ${note}`
           : attachment.file.name;
-        const wrapped = wrapText(entry, 90);
-        if (wrapped.length > 0) {
-          const [first, ...rest] = wrapped;
-          drawLines([`• ${first}`], defaultSize, 0);
-          if (rest.length > 0) {
-            drawLines(rest, defaultSize, 16);
+        exhibitBookmarks.push({
+          title: `Exhibit ${getExhibitLabel(index)} — ${attachment.file.name}`,
+          page: separatorPage,
+          top: separatorY + 24,
+        });
+        exhibitIds.push(attachment.id);
+        drawSeparatorLine(`Exhibit ${getExhibitLabel(index)}`, 24);
+        separatorY -= 6;
+        drawSeparatorLine(heading, 14);
+        if (attachment.tags.length > 0) {
+          drawSeparatorLine(
+            attachment.tags.map(getAttachmentTagLabel).join(" · "),
+          );
+        }
+        separatorY -= 6;
+
+        try {
+          const sourceDoc = await PDFDocument.load(
+            await attachment.file.arrayBuffer(),
+            { ignoreEncryption: true },
+          );
+          if (sourceDoc.isEncrypted) {
+            throw new Error(`${attachment.file.name} is encrypted`);
           }
+          const copiedPages = await pdfDoc.copyPages(
+            sourceDoc,
+            sourceDoc.getPageIndices(),
+          );
+          drawSeparatorLine(
+            `Merged document follows (${copiedPages.length} ${
+              copiedPages.length === 1 ? "page" : "pages"
+            }).`,
+          );
+          copiedPages.forEach((copiedPage) => pdfDoc.addPage(copiedPage));
+        } catch (error) {
+          console.error(error);
+          drawSeparatorLine(
+            "This PDF could not be merged (it may be encrypted or damaged).",
+          );
+          drawSeparatorLine("The original file is included in the ZIP.");
         }
+        continue;
+      }
+
+      if (kind !== "png" && kind !== "jpeg") {
+        continue;
+      }
+
+      const exhibitPage = pdfDoc.addPage();
+      const { width: exhibitWidth, height: exhibitHeight } =
+        exhibitPage.getSize();
+      const titleSize = 14;
+      const maxCaptionLines = 8;
+      const wrappedCaption = layout
+        .wrap(attachment.note, defaultSize, exhibitWidth - margin * 2)
+        .filter(Boolean);
+      const captionLines =
+        wrappedCaption.length > maxCaptionLines
+          ? [
+              ...wrappedCaption.slice(0, maxCaptionLines - 1),
+              layout.fit(
+                wrappedCaption.slice(maxCaptionLines - 1).join(" "),
+                defaultSize,
+                exhibitWidth - margin * 2,
+              ),
+            ]
+          : wrappedCaption;
+      let exhibitY = exhibitHeight - margin;
+      const exhibitTitle = `Exhibit ${getExhibitLabel(index)} — ${attachment.file.name}`;
+
+      exhibitBookmarks.push({
+        title: exhibitTitle,
+        page: exhibitPage,
+        top: exhibitY + titleSize,
+      });
+      exhibitIds.push(attachment.id);
+      layout.draw(
+        exhibitPage,
+        layout.fit(exhibitTitle, titleSize, exhibitWidth - margin * 2),
+        { x: margin, y: exhibitY, size: titleSize },
+      );
+      if (attachment.tags.length > 0) {
+        exhibitY -= titleSize + lineGap;
+        layout.draw(
+          exhibitPage,
+          layout.fit(
+            attachment.tags.map(getAttachmentTagLabel).join(" · "),
+            10,
+            exhibitWidth - margin * 2,
+          ),
+          { x: margin, y: exhibitY, size: 10, color: rgb(0.3, 0.3, 0.3) },
+        );
+      }
+      exhibitY -= titleSize + lineGap + 8;
+
+      try {
+        const image =
+          kind !== "png"
+            ? await pdfDoc.embedJpg(await exhibitFile.arrayBuffer())
+            : await pdfDoc.embedPng(
+                archivalExport
+                  ? await flattenImage(exhibitFile)
+                  : await exhibitFile.arrayBuffer(),
+              );
+
+        const captionHeight = captionLines.length * (defaultSize + lineGap);
+        const boxWidth = exhibitWidth - margin * 2;
+        const boxHeight = Math.max(exhibitY - margin - captionHeight - 8, 72);
+        const scale = Math.min(
+          boxWidth / image.width,
+          boxHeight / image.height,
+          1,
+        );
+        const drawWidth = image.width * scale;
+        const drawHeight = image.height * scale;
+
+        exhibitPage.drawImage(image, {
+          x: (exhibitWidth - drawWidth) / 2,
+          y: exhibitY - drawHeight,
+          width: drawWidth,
+          height: drawHeight,
+        });
+        exhibitY -= drawHeight + 8 + defaultSize;
+      } catch (error) {
+        console.error(error);
+        exhibitY -= defaultSize;
+        layout
+          .wrap(
+            "This image could not be embedded. The original file is included in the ZIP.",
+            defaultSize,
+            exhibitWidth - margin * 2,
+          )
+          .forEach((line) => {
+            layout.draw(exhibitPage, line, {
+              x: margin,
+              y: exhibitY,
+              size: defaultSize,
+            });
+            exhibitY -= defaultSize + lineGap;
+          });
+        exhibitY -= defaultSize;
+      }
+
+      captionLines.forEach((line) => {
+        layout.draw(exhibitPage, line, {
+          x: margin,
+          y: exhibitY,
+          size: defaultSize,
+        });
+        exhibitY -= defaultSize + lineGap;
       });
     }
 
-    pdfDoc.getPages().forEach((pdfPage) => {
-      if (SHOW_DIAGONAL_WATERMARK) {
-        const watermarkText = "DISPUTESHIELD — EVIDENCE PACKET";
-        const watermarkSize = 48;
-        const pageWidth = pdfPage.getWidth();
-        const pageHeight = pdfPage.getHeight();
-        const textWidth = font.widthOfTextAtSize(watermarkText, watermarkSize);
+    if (form.correspondence.length > 0) {
+      page = pdfDoc.addPage();
+      y = height - margin;
+      const correspondenceTitle = `Exhibit ${correspondenceLabel} — Customer correspondence`;
+      exhibitBookmarks.push({ title: correspondenceTitle, page, top: y + 16 });
+      exhibitIds.push("correspondence");
+      drawLine(correspondenceTitle, 16);
+      drawLine(
+        `${form.correspondence.length} imported emails in chronological order.`,
+        10,
+      );
+      y -= 8;
+
+      for (const message of form.correspondence) {
+        ensureSpace(6, 11);
+        drawLine(
+          `Date: ${formatCorrespondenceDate(message.date, outputFormat)}`,
+          11,
+        );
+        drawLine(`From: ${message.from || "—"}`, 11);
+        drawLine(`To: ${message.to || "—"}`, 11);
+        drawLine(`Subject: ${message.subject || "—"}`, 11);
+        y -= 4;
+        message.body.split("\n").forEach((line) => drawLine(line, 10));
+
+        for (const image of message.images) {
+          try {
+            const embedded =
+              image.contentType !== "image/png"
+                ? await pdfDoc.embedJpg(image.data)
+                : await pdfDoc.embedPng(
+                    archivalExport
+                      ? await flattenImage(
+                          new Blob([
+                            Uint8Array.from(atob(image.data), (character) =>
+                              character.charCodeAt(0),
+                            ),
+                          ]),
+                        )
+                      : image.data,
+                  );
+            const scale = Math.min(
+              1,
+              contentWidth / embedded.width,
+              260 / embedded.height,
+            );
+            const imageWidth = embedded.width * scale;
+            const imageHeight = embedded.height * scale;
+            if (y - imageHeight < margin) {
+              page = pdfDoc.addPage();
+              y = height - margin;
+            }
+            page.drawImage(embedded, {
+              x: margin,
+              y: y - imageHeight,
+              width: imageWidth,
+              height: imageHeight,
+            });
+            y -= imageHeight + lineGap;
+          } catch (error) {
+            console.error(error);
+            drawLine(`[Inline image ${image.name} could not be embedded]`, 10);
+          }
+        }
+
+        ensureSpace(2, 10);
+        page.drawLine({
+          start: { x: margin, y: y + 2 },
+          end: { x: width - margin, y: y + 2 },
+          thickness: 0.5,
+          color: rgb(0.8, 0.8, 0.8),
+        });
+        y -= 12;
+      }
+    }
+
+    page = pdfDoc.addPage();
+    y = height - margin;
+    const integrityBookmark: PdfBookmark = {
+      title: "Packet integrity",
+      page,
+      top: y + 20,
+    };
+    drawLine("Packet integrity", 20);
+    y -= 8;
+    drawLine(
+      "SHA-256 digests of each exhibit file as included in the ZIP’s attachments/ folder. Recompute a digest with sha256sum (macOS/Linux) or certutil -hashfile <file> SHA256 (Windows) to show the file is unchanged. manifest.txt in the ZIP covers every packet file.",
+      10,
+    );
+    y -= 8;
+    if (exportAttachments.length === 0) {
+      drawLine("No attachments included.");
+    }
+    for (const attachment of exportAttachments) {
+      const exhibitFile = attachment.file;
+      const digest = await sha256Hex(await exhibitFile.arrayBuffer());
+      ensureSpace(3, 11);
+      drawLine(
+        `${getExhibitFilename({ ...attachment, file: exhibitFile })} (${formatBytes(
+          exhibitFile.size,
+        )})`,
+        11,
+      );
+      drawLines([digest], 9, 16);
+      y -= 4;
+    }
+
+    const tocEntries = [
+      ...sectionBookmarks.map((bookmark) => ({ bookmark, indent: 0 })),
+      ...exhibitBookmarks.map((bookmark) => ({ bookmark, indent: 16 })),
+      { bookmark: integrityBookmark, indent: 0 },
+    ];
+    const tocTitleSize = 20;
+    const tocLineHeight = defaultSize + lineGap;
+    const tocEntriesPerPage = Math.floor(
+      (height - margin * 2 - tocTitleSize - lineGap - 8) / tocLineHeight,
+    );
+    const tocPageCount = Math.max(
+      1,
+      Math.ceil(tocEntries.length / tocEntriesPerPage),
+    );
+    const tocPages = Array.from({ length: tocPageCount }, (_, index) =>
+      pdfDoc.insertPage(tocInsertIndex + index),
+    );
+    const pageNumbers = new Map(
+      pdfDoc.getPages().map((pdfPage, index) => [pdfPage, index + 1]),
+    );
+
+    tocPages.forEach((tocPage, pageIndex) => {
+      const { width: tocWidth } = tocPage.getSize();
+      let tocY = height - margin;
+
+      layout.draw(
+        tocPage,
+        pageIndex === 0 ? "Table of Contents" : "Table of Contents (continued)",
+        { x: margin, y: tocY, size: tocTitleSize },
+      );
+      tocY -= tocTitleSize + lineGap + 8;
+
+      tocEntries
+        .slice(
+          pageIndex * tocEntriesPerPage,
+          (pageIndex + 1) * tocEntriesPerPage,
+        )
+        .forEach(({ bookmark, indent }) => {
+          const pageNumber = String(pageNumbers.get(bookmark.page) ?? "");
+          const numberWidth = layout.measure(pageNumber, defaultSize);
+          const numberX = tocWidth - margin - numberWidth;
+          const title = layout.fit(
+            bookmark.title,
+            defaultSize,
+            numberX - margin - indent - 24,
+          );
+          const titleWidth = layout.measure(title, defaultSize);
+          const dotWidth = layout.measure(".", defaultSize);
+          const leaderStart = margin + indent + titleWidth + 6;
+          const leader = ".".repeat(
+            Math.max(0, Math.floor((numberX - 6 - leaderStart) / dotWidth)),
+          );
+
+          layout.draw(tocPage, title, {
+            x: margin + indent,
+            y: tocY,
+            size: defaultSize,
+          });
+          layout.draw(tocPage, leader, {
+            x: leaderStart,
+            y: tocY,
+            size: defaultSize,
+            color: rgb(0.6, 0.6, 0.6),
+          });
+          layout.draw(tocPage, pageNumber, {
+            x: numberX,
+            y: tocY,
+            size: defaultSize,
+          });
+          addInternalLink(
+            pdfDoc,
+            tocPage,
+            {
+              x: margin + indent,
+              y: tocY - 3,
+              width: tocWidth - margin * 2 - indent,
+              height: defaultSize + 4,
+            },
+            bookmark,
+          );
+          tocY -= tocLineHeight;
+        });
+    });
+
+    addOutline(pdfDoc, [
+      ...sectionBookmarks.slice(0, tocOutlinePosition),
+      {
+        title: "Table of Contents",
+        page: tocPages[0],
+        top: height - margin + tocTitleSize,
+      },
+      ...sectionBookmarks.slice(tocOutlinePosition),
+      ...(exhibitBookmarks.length > 0
+        ? [
+            {
+              ...exhibitBookmarks[0],
+              title: "Exhibits",
+              children: exhibitBookmarks,
+            },
+          ]
+        : []),
+      integrityBookmark,
+    ]);
+
+    const headerText = [
+      form.merchant_name.trim() || "Merchant —",
+      `Order ${form.order_id.trim() || "—"}`,
+      hasValue(form.amount) ? describeAmount(form) : "Amount —",
+      hasValue(form.processor_case_number)
+        ? `Case ${form.processor_case_number.trim()}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join("  ·  ");
+    const totalPages = pdfDoc.getPageCount();
+    const watermarkText =
+      branding.watermark === "default"
+        ? DEFAULT_WATERMARK_TEXT
+        : branding.watermark === "custom"
+          ? branding.watermarkText.trim()
+          : "";
+    const generatedLabel = branding.showToolCredit
+      ? `Generated by DisputeShield on ${generatedAt}`
+      : `Prepared by ${form.merchant_name.trim() || "the merchant"} on ${generatedAt}`;
+
+    pdfDoc.getPages().forEach((pdfPage, pageIndex) => {
+      const pageWidth = pdfPage.getWidth();
+      const pageHeight = pdfPage.getHeight();
+      const headerY = pageHeight - 24;
+
+      let headerX = margin;
+      if (logo) {
+        const logoSize = logo.scaleToFit(60, 12);
+        pdfPage.drawImage(logo, {
+          x: margin,
+          y: headerY - 2,
+          width: logoSize.width,
+          height: logoSize.height,
+        });
+        headerX += logoSize.width + 6;
+      }
+      layout.draw(
+        pdfPage,
+        layout.fit(headerText, 9, pageWidth - margin - headerX),
+        { x: headerX, y: headerY, size: 9, color: rgb(0.3, 0.3, 0.3) },
+      );
+      pdfPage.drawLine({
+        start: { x: margin, y: headerY - 5 },
+        end: { x: pageWidth - margin, y: headerY - 5 },
+        thickness: 0.75,
+        color: accentColor,
+      });
+
+      if (watermarkText && !archivalExport) {
+        const watermarkSize = Math.min(
+          48,
+          (48 * (Math.hypot(pageWidth, pageHeight) - margin * 2)) /
+            Math.max(1, layout.measure(watermarkText, 48)),
+        );
+        const textWidth = layout.measure(watermarkText, watermarkSize);
 
-        pdfPage.drawText(watermarkText, {
+        layout.draw(pdfPage, watermarkText, {
           x: (pageWidth - textWidth) / 2,
           y: pageHeight / 2,
           size: watermarkSize,
-          font,
-          color: rgb(0, 0, 0),
-          rotate: degrees(45),
+          rotate: 45,
           opacity: 0.1,
         });
       }
 
-      if (SHOW_BRANDING_FOOTER) {
-        pdfPage.drawText("Generated by DisputeShield.app", {
+      if (branding.showToolCredit) {
+        layout.draw(pdfPage, "Generated by DisputeShield.app", {
           x: margin,
           y: 42,
           size: 9,
-          font,
-          color: rgb(0, 0, 0),
         });
       }
 
-      pdfPage.drawText(`Generated by DisputeShield on ${generatedAt}`, {
+      layout.draw(pdfPage, generatedLabel, {
         x: margin,
         y: 30,
         size: 10,
-        font,
-        color: rgb(0, 0, 0),
+      });
+
+      const pageLabel = `Page ${pageIndex + 1} of ${totalPages}`;
+      layout.draw(pdfPage, pageLabel, {
+        x: pageWidth - margin - layout.measure(pageLabel, 10),
+        y: 30,
+        size: 10,
       });
     });
 
-    const bytes = await pdfDoc.save();
-    return { bytes, pageCount: pdfDoc.getPageCount() };
+    const orderLabel = form.order_id.trim() || "—";
+    const metadata: PdfDocumentMetadata = {
+      title: `Chargeback evidence — Order ${orderLabel}`,
+      author: form.merchant_name.trim() || "Merchant",
+      subject: `Order ${orderLabel} — ${reasonText} dispute`,
+      keywords: [
+        "chargeback",
+        "dispute-evidence",
+        reasonValue,
+        reasonCode ? `${reasonCode.network}-${reasonCode.code}` : "",
+        form.order_id.trim(),
+        form.processor_case_number.trim(),
+      ].filter(Boolean),
+      creator: "DisputeShield.app",
+      producer: "DisputeShield",
+      createdAt,
+    };
+    applyDocumentMetadata(pdfDoc, metadata);
+    if (archivalExport) {
+      applyArchivalConformance(pdfDoc, metadata);
+    }
+
+    const pages = pdfDoc.getPages();
+    const sections: PdfSection[] = [
+      {
+        id: "front",
+        title:
+          "Cover, rebuttal letter, contents, summary, checklist, timeline, and attachment index",
+        startPage: 0,
+      },
+      ...exhibitBookmarks.map((bookmark, index) => ({
+        id: exhibitIds[index],
+        title: bookmark.title,
+        startPage: pages.indexOf(bookmark.page),
+      })),
+      {
+        id: "integrity",
+        title: integrityBookmark.title,
+        startPage: pages.indexOf(integrityBookmark.page),
+      },
+    ];
+
+    const bytes = await pdfDoc.save({ useObjectStreams: !archivalExport });
+    return {
+      bytes,
+      pageCount: pdfDoc.getPageCount(),
+      sections,
+      metadata,
+      headerText,
+    };
   };
 
   const setPdfFromBytes = (bytes: Uint8Array) => {
@@ -808,6 +4153,195 @@ function EvidenceApp() {
     });
   };
 
+  const createPdfParts = (
+    result: Awaited<ReturnType<typeof createPdfBytes>>,
+  ) =>
+    splitPdfIntoParts(result.bytes, result.sections, {
+      maxBytes: exportProfile.maxPdfBytes,
+      useObjectStreams: !archivalExport,
+      decorate: async (partDoc, part) => {
+        const contents = part.sections.map((section) => section.title);
+        const layout = await createPdfTextLayout(
+          partDoc,
+          [result.headerText, ...contents, getFormatSample(outputFormat)].join(
+            "\n",
+          ),
+        );
+        const page = partDoc.insertPage(0);
+        const margin = 50;
+        const { width, height } = page.getSize();
+        let y = height - margin - 24;
+
+        const drawLine = (
+          text: string,
+          size = 12,
+          indent = 0,
+          color = rgb(0, 0, 0),
+        ) => {
+          layout
+            .wrap(text, size, width - margin * 2 - indent)
+            .forEach((line) => {
+              layout.draw(page, line, { x: margin + indent, y, size, color });
+              y -= size + 6;
+            });
+        };
+
+        drawLine(
+          `Evidence packet — Part ${part.index + 1} of ${part.count}`,
+          24,
+          0,
+          parseHexColor(branding.accentColor),
+        );
+        y -= 6;
+        drawLine(result.headerText, 11);
+        y -= 18;
+        drawLine("This part contains:", 14);
+        contents.forEach((title) => drawLine(`• ${title}`, 12, 8));
+        y -= 18;
+        drawLine(
+          `Upload all ${part.count} parts together. Pages keep their numbering from the full ${result.pageCount}-page packet.`,
+          10,
+        );
+
+        const partMetadata: PdfDocumentMetadata = {
+          ...result.metadata,
+          title: `${result.metadata.title} (part ${part.index + 1} of ${
+            part.count
+          })`,
+        };
+        applyDocumentMetadata(partDoc, partMetadata);
+        if (archivalExport) {
+          applyArchivalConformance(partDoc, partMetadata);
+        }
+      },
+    });
+
+  const createOptimizedPdf = async (form: FormState) => {
+    const getStats = (
+      result: { bytes: Uint8Array; pageCount: number },
+      parts: PdfPart[] = [],
+    ): PdfStats => ({
+      sizeBytes: result.bytes.length,
+      pageCount: result.pageCount,
+      partSizes: parts.map((part) => part.bytes.length),
+    });
+    const isOverBudget = (stats: PdfStats, files: Map<string, File>) =>
+      getExportIssues(
+        exportProfile,
+        stats,
+        getExportAttachments(files),
+        0,
+      ).some((issue) => issue.category === "size");
+
+    let files = new Map<string, File>();
+    let result = await createPdfBytes(form, files);
+    if (!isOverBudget(getStats(result), files)) {
+      return {
+        ...result,
+        files,
+        parts: [],
+        stats: getStats(result),
+        report: null,
+      };
+    }
+
+    const pdfBeforeBytes = result.bytes.length;
+    const images = attachments.filter((attachment) => {
+      const kind = getAttachmentKind(attachment.file);
+      return kind === "png" || kind === "jpeg";
+    });
+    if (optimizeImages && images.length > 0) {
+      for (const step of IMAGE_OPTIMIZATION_STEPS) {
+        files = await recompressImages(images, step);
+        result = await createPdfBytes(form, files);
+        if (!isOverBudget(getStats(result), files)) {
+          break;
+        }
+      }
+    }
+
+    const parts =
+      exportProfile.enforceLimits &&
+      exportProfile.uploadMode === "separate" &&
+      result.bytes.length > exportProfile.maxPdfBytes
+        ? await createPdfParts(result)
+        : [];
+    const stats = getStats(result, parts);
+
+    const exportAttachments = getExportAttachments(files);
+    const oversizedIds = new Set(
+      exportAttachments
+        .filter(
+          (attachment) =>
+            isUploadedSeparately(exportProfile, attachment.file) &&
+            attachment.file.size > exportProfile.maxFileBytes,
+        )
+        .map((attachment) => attachment.id),
+    );
+    const markLargest = (ids: string[], overBy: number) => {
+      let remaining = overBy;
+      exportAttachments
+        .filter((attachment) => ids.includes(attachment.id))
+        .sort((a, b) => b.file.size - a.file.size)
+        .forEach((attachment) => {
+          if (remaining > 0) {
+            oversizedIds.add(attachment.id);
+            remaining -= attachment.file.size;
+          }
+        });
+    };
+
+    const allIds = exportAttachments.map((attachment) => attachment.id);
+    if (parts.length > 0) {
+      parts
+        .filter((part) => part.oversized)
+        .forEach((part) =>
+          markLargest(
+            part.sections.map((section) => section.id),
+            part.bytes.length - exportProfile.maxPdfBytes,
+          ),
+        );
+    } else {
+      markLargest(allIds, result.bytes.length - exportProfile.maxPdfBytes);
+    }
+    const attachmentsBytes = exportAttachments.reduce(
+      (total, item) => total + item.file.size,
+      0,
+    );
+    if (exportProfile.uploadMode === "packet") {
+      markLargest(allIds, attachmentsBytes - exportProfile.maxTotalBytes);
+    }
+    if (exportProfile.uploadMode === "separate") {
+      const uploadBytes = exportAttachments
+        .filter((attachment) =>
+          isUploadedSeparately(exportProfile, attachment.file),
+        )
+        .reduce(
+          (total, item) => total + item.file.size,
+          parts.length > 0
+            ? stats.partSizes.reduce((total, size) => total + size, 0)
+            : result.bytes.length,
+        );
+      markLargest(allIds, uploadBytes - exportProfile.maxTotalBytes);
+    }
+
+    const report: OptimizationReport = {
+      pdfBeforeBytes,
+      pdfAfterBytes: result.bytes.length,
+      images: images
+        .filter((attachment) => files.has(attachment.id))
+        .map((attachment) => ({
+          id: attachment.id,
+          beforeBytes: attachment.file.size,
+          afterBytes: files.get(attachment.id)?.size ?? attachment.file.size,
+        })),
+      oversizedIds: allIds.filter((id) => oversizedIds.has(id)),
+      fits:
+        !isOverBudget(stats, files) && parts.every((part) => !part.oversized),
+    };
+    return { ...result, files, parts, stats, report };
+  };
+
   const generatePdf = async () => {
     if (!hasHumanToken) {
       setExportError(humanVerifyMessage);
@@ -823,12 +4357,12 @@ function EvidenceApp() {
         return;
       }
 
-      const result = await createPdfBytes();
+      const result = await createOptimizedPdf(exportForm);
       setPdfBytes(result.bytes);
-      setPdfStats({
-        sizeBytes: result.bytes.length,
-        pageCount: result.pageCount,
-      });
+      setPdfStats(result.stats);
+      setPdfParts(result.parts);
+      setExhibitFiles(result.files);
+      setOptimizationReport(result.report);
       setPdfFromBytes(result.bytes);
       setPdfDirty(false);
     } catch (error) {
@@ -840,18 +4374,218 @@ function EvidenceApp() {
   };
 
   const downloadPdf = () => {
-    if (!pdfUrl) {
+    if (!pdfUrl || exportBlocked) {
       return;
     }
 
     const link = document.createElement("a");
     link.href = pdfUrl;
-    link.download = "chargeback-evidence.pdf";
+    link.download = getPdfFilename();
     document.body.appendChild(link);
     link.click();
     link.remove();
   };
 
+  const buildPacketTextFiles = (
+    form: FormState,
+    parts: PdfPart[],
+    exportAttachments: AttachmentItem[],
+  ) => {
+    const checklistItems = sortEvidenceByPriority(evidenceItems);
+    const checklistLines = checklistItems.map((item) => {
+      const priorityLabel =
+        item.priority === "critical" ? "Critical" : "Recommended";
+      return `- ${item.label} (${priorityLabel}): ${
+        item.present ? "Present" : "Missing"
+      }`;
+    });
+
+    const summary = [
+      `Merchant Name: ${form.merchant_name || "—"}`,
+      `Order ID: ${form.order_id || "—"}`,
+      `Processor Case Number: ${form.processor_case_number || "—"}`,
+      `Amount: ${
+        hasValue(form.amount)
+          ? formatMoney(form.amount, form.currency, outputFormat)
+          : "—"
+      }`,
+      `Currency: ${form.currency || "—"}`,
+      `Locale: ${outputFormat.locale}`,
+      `Time Zone: ${outputFormat.timeZone}`,
+      `Dispute Reason: ${reasonLabel || "—"}`,
+      `Card Network: ${
+        reasonCode ? getCardNetworkLabel(reasonCode.network) : "—"
+      }`,
+      `Reason Code: ${
+        reasonCode ? `${reasonCode.code} — ${reasonCode.label}` : "—"
+      }`,
+      `Dispute Opened: ${
+        formatDate(form.dispute_opened_date, outputFormat) || "—"
+      }`,
+      `Response Due: ${
+        responseDeadline
+          ? describeResponseDeadline(responseDeadline, outputFormat)
+          : "—"
+      }`,
+      `Customer Email: ${form.customer_email || "—"}`,
+      `Billing Address: ${form.billing_address || "—"}`,
+      `IP Address: ${form.ip_address || "—"}`,
+      `Tracking Number: ${form.tracking_number || "—"}`,
+      `Carrier: ${form.carrier || "—"}`,
+      `Delivery Date: ${formatDate(form.delivery_date, outputFormat) || "—"}`,
+      `Policy URL: ${form.policy_url || "—"}`,
+      `Refund Policy Excerpt: ${form.refund_policy_excerpt || "—"}`,
+      `Customer Communication Notes: ${
+        form.customer_communication_notes || "—"
+      }`,
+      `Customer Correspondence: ${
+        form.correspondence.length > 0
+          ? `${form.correspondence.length} imported emails (Exhibit ${correspondenceLabel})`
+          : "—"
+      }`,
+      ...(reasonCode
+        ? [
+            "",
+            `${formatReasonCode(reasonCode)} requirements:`,
+            ...reasonCode.requirements.map((requirement) => `- ${requirement}`),
+            `Remedy: ${reasonCode.remedy}`,
+          ]
+        : []),
+      ...(includeScoreInSummary
+        ? ["", ...formatEvidenceScore(evidenceScore)]
+        : []),
+      "",
+      "Checklist:",
+      ...checklistLines,
+    ].join("\n");
+
+    const csvLines = [
+      "index,date,time,time_zone,utc,category,source,description,exhibits",
+    ];
+    form.timeline.forEach((entry, index) => {
+      const timestamp = getTimelineTimestamp(entry);
+      const utc =
+        timestamp !== null && isValidTime(entry.time)
+          ? new Date(timestamp).toISOString()
+          : "";
+      const exhibits = getTimelineExhibitLabels(entry, exhibitLabels);
+      const columns = [
+        entry.date,
+        entry.time,
+        entry.timeZone,
+        utc,
+        entry.category,
+        entry.source,
+        normalizeSentenceCase(entry.description),
+        exhibits.join(" "),
+      ];
+      csvLines.push(`${index + 1},${columns.map(csvEscape).join(",")}`);
+    });
+
+    const submissionNotesLines: string[] = [];
+    submissionNotesLines.push(
+      `Submission Summary: ${reasonLabel}${
+        reasonCode
+          ? ` (${getCardNetworkLabel(reasonCode.network)} ${reasonCode.code})`
+          : ""
+      } dispute for order ${form.order_id || "—"} in the amount of ${
+        hasValue(form.amount) ? describeAmount(form) : "—"
+      }. Evidence packet includes timeline, policies, and supporting materials generated by the merchant.`,
+    );
+    if (responseDeadline) {
+      submissionNotesLines.push(
+        `Respond by: ${describeResponseDeadline(
+          responseDeadline,
+          outputFormat,
+        )}`,
+      );
+    }
+    submissionNotesLines.push(describeTimeZone(outputFormat));
+    if (exportProfile.uploadMode !== "packet") {
+      submissionNotesLines.push("");
+      submissionNotesLines.push(`Uploading to ${exportProfile.label}:`);
+      submissionNotesLines.push(
+        exportProfile.uploadMode === "combined"
+          ? `- Upload upload/${getPdfFilename()} as the single evidence document.`
+          : "- Upload every file in the upload/ folder; each is within the per-file limit.",
+      );
+      if (exportProfile.maxTextLength !== null) {
+        submissionNotesLines.push(
+          `- Paste rebuttal-letter.txt into the text field (up to ${exportProfile.maxTextLength.toLocaleString()} characters).`,
+        );
+      }
+    }
+    if (parts.length > 0) {
+      submissionNotesLines.push("");
+      submissionNotesLines.push(
+        `Evidence PDF parts (the packet exceeds ${formatBytes(
+          exportProfile.maxPdfBytes,
+        )} per file, so it was split; upload every part):`,
+      );
+      parts.forEach((part, index) => {
+        submissionNotesLines.push(
+          `- ${getPartFilename(index, parts.length)} (${formatBytes(
+            part.bytes.length,
+          )}, ${part.pageCount} pages): ${part.sections
+            .map((section) => section.title)
+            .join("; ")}`,
+        );
+      });
+    }
+    submissionNotesLines.push("");
+    submissionNotesLines.push("Attached evidence:");
+    if (exportAttachments.length === 0 && form.correspondence.length === 0) {
+      submissionNotesLines.push("- No attachments included.");
+    } else {
+      groupAttachmentsByCategory(exportAttachments).forEach((group) => {
+        submissionNotesLines.push(`${group.label}:`);
+        group.indexes.forEach((index) => {
+          const attachment = exportAttachments[index];
+          const note = attachment.note.trim();
+          submissionNotesLines.push(
+            `- Exhibit ${exhibitLabels.get(attachment.id)}: ${
+              attachment.file.name
+            }${note ? ` — ${note}` : ""}`,
+          );
+        });
+      });
+      if (form.correspondence.length > 0) {
+        submissionNotesLines.push(
+          `- Exhibit ${correspondenceLabel}: Customer correspondence (${form.correspondence.length} emails, in the PDF and correspondence.txt)`,
+        );
+      }
+    }
+    submissionNotesLines.push("");
+    submissionNotesLines.push("Timeline highlights:");
+    if (form.timeline.length === 0) {
+      submissionNotesLines.push("- No timeline events provided.");
+    } else {
+      form.timeline.forEach((entry) => {
+        submissionNotesLines.push(
+          `- ${formatTimelineEntry(entry, exhibitLabels, outputFormat)}`,
+        );
+      });
+    }
+    if (hasValue(form.policy_url)) {
+      submissionNotesLines.push("");
+      submissionNotesLines.push("Policy link:");
+      submissionNotesLines.push(form.policy_url.trim());
+    }
+
+    const submissionNotes = submissionNotesLines.join("\n");
+
+    return {
+      summary,
+      submissionNotes,
+      timelineCsv: csvLines.join("\n"),
+      rebuttalLetter: getRebuttalLetterText(form),
+      correspondence: formatCorrespondenceText(
+        form.correspondence,
+        outputFormat,
+      ),
+    };
+  };
+
   const downloadZip = async () => {
     if (!orderIdTrimmed.length) {
       setZipError("Order ID is required.");
@@ -867,6 +4601,17 @@ function EvidenceApp() {
       return;
     }
 
+    if (exportBlocked) {
+      setZipError(
+        profileBlocked
+          ? `This packet would be rejected by ${exportProfile.label}. Resolve the issues listed under Export guardrails.`
+          : "Some fields failed validation. Fix the issues listed under Export guardrails.",
+      );
+      setZipSuccess(null);
+      setZipTip(null);
+      return;
+    }
+
     setIsZipping(true);
     setZipError(null);
     setZipSuccess(null);
@@ -880,14 +4625,18 @@ function EvidenceApp() {
       }
 
       let bytes = pdfBytes;
+      let files = exhibitFiles;
+      let parts = pdfParts;
       if (!bytes) {
-        const result = await createPdfBytes();
+        const result = await createOptimizedPdf(exportForm);
         bytes = result.bytes;
+        files = result.files;
+        parts = result.parts;
         setPdfBytes(result.bytes);
-        setPdfStats({
-          sizeBytes: result.bytes.length,
-          pageCount: result.pageCount,
-        });
+        setPdfStats(result.stats);
+        setPdfParts(result.parts);
+        setExhibitFiles(result.files);
+        setOptimizationReport(result.report);
         setPdfFromBytes(result.bytes);
         setPdfDirty(false);
       }
@@ -898,106 +4647,130 @@ function EvidenceApp() {
         );
       }
 
-      const checklistItems = sortEvidenceByPriority(evidenceItems);
-      const checklistLines = checklistItems.map((item) => {
-        const priorityLabel =
-          item.priority === "critical" ? "Critical" : "Recommended";
-        return `- ${item.label} (${priorityLabel}): ${
-          item.present ? "Present" : "Missing"
-        }`;
-      });
-
-      const summary = [
-        `Merchant Name: ${form.merchant_name || "—"}`,
-        `Order ID: ${form.order_id || "—"}`,
-        `Amount: ${form.amount || "—"}`,
-        `Currency: ${form.currency || "—"}`,
-        `Dispute Reason: ${reasonLabel || "—"}`,
-        `Customer Email: ${form.customer_email || "—"}`,
-        `Billing Address: ${form.billing_address || "—"}`,
-        `IP Address: ${form.ip_address || "—"}`,
-        `Tracking Number: ${form.tracking_number || "—"}`,
-        `Carrier: ${form.carrier || "—"}`,
-        `Delivery Date: ${form.delivery_date || "—"}`,
-        `Policy URL: ${form.policy_url || "—"}`,
-        `Refund Policy Excerpt: ${form.refund_policy_excerpt || "—"}`,
-        `Customer Communication Notes: ${
-          form.customer_communication_notes || "—"
-        }`,
-        "",
-        "Checklist:",
-        ...checklistLines,
-      ].join("\n");
-
-      const csvLines = ["index,event"];
-      form.timeline.forEach((event, index) => {
-        const normalized = normalizeTimelineEvent(event);
-        csvLines.push(`${index + 1},${csvEscape(normalized)}`);
-      });
-
-      const submissionNotesLines: string[] = [];
-      submissionNotesLines.push(
-        `Submission Summary: ${reasonLabel} dispute for order ${form.order_id || "—"} in the amount of ${form.amount || "—"} ${form.currency || ""}. Evidence packet includes timeline, policies, and supporting materials generated by the merchant.`,
-      );
-      submissionNotesLines.push("");
-      submissionNotesLines.push("Attached evidence:");
-      if (attachments.length === 0) {
-        submissionNotesLines.push("- No attachments included.");
-      } else {
-        attachments.forEach((attachment) => {
-          submissionNotesLines.push(`- ${attachment.file.name}`);
-        });
-      }
-      submissionNotesLines.push("");
-      submissionNotesLines.push("Timeline highlights:");
-      if (form.timeline.length === 0) {
-        submissionNotesLines.push("- No timeline events provided.");
-      } else {
-        form.timeline.forEach((event) => {
-          submissionNotesLines.push(`- ${normalizeTimelineEvent(event)}`);
-        });
-      }
-      if (hasValue(form.policy_url)) {
-        submissionNotesLines.push("");
-        submissionNotesLines.push("Policy link:");
-        submissionNotesLines.push(form.policy_url.trim());
-      }
-
-      const submissionNotes = submissionNotesLines.join("\n");
+      const exportAttachments = getExportAttachments(files);
+      const {
+        summary,
+        submissionNotes,
+        timelineCsv,
+        rebuttalLetter,
+        correspondence,
+      } = buildPacketTextFiles(exportForm, parts, exportAttachments);
+      const getUploadFilename = (attachment: AttachmentItem) =>
+        isUploadedSeparately(exportProfile, attachment.file)
+          ? getProcessorSafeFilename(
+              `${getUploadBaseName()}-${getExhibitFilename(attachment)}`,
+              exportProfile.maxFilenameLength,
+            )
+          : "";
 
       const zip = new JSZip();
+      const uploadFolder =
+        exportProfile.uploadMode === "packet" ? null : zip.folder("upload");
       const attachmentsFolder = zip.folder("attachments");
       if (attachmentsFolder) {
-        attachments.forEach((attachment) => {
-          attachmentsFolder.file(attachment.file.name, attachment.file);
+        exportAttachments.forEach((attachment) => {
+          attachmentsFolder.file(
+            getExhibitFilename(attachment),
+            attachment.file,
+          );
+          const uploadFilename = getUploadFilename(attachment);
+          if (uploadFolder && uploadFilename) {
+            uploadFolder.file(uploadFilename, attachment.file);
+          }
         });
 
-        const indexLines = ["filename,size_bytes,note"];
-        attachments.forEach((attachment) => {
-          indexLines.push(
-            [
-              csvEscape(attachment.file.name),
-              attachment.file.size,
-              csvEscape(attachment.note || ""),
-            ].join(","),
-          );
+        const indexLines = [
+          "exhibit,category,tags,filename,original_filename,size_bytes,note,upload_file",
+        ];
+        groupAttachmentsByCategory(exportAttachments).forEach((group) => {
+          group.indexes.forEach((index) => {
+            const attachment = exportAttachments[index];
+            indexLines.push(
+              [
+                csvEscape(exhibitLabels.get(attachment.id) ?? ""),
+                csvEscape(group.label),
+                csvEscape(
+                  attachment.tags.map(getAttachmentTagLabel).join("; "),
+                ),
+                csvEscape(getExhibitFilename(attachment)),
+                csvEscape(attachment.file.name),
+                attachment.file.size,
+                csvEscape(attachment.note || ""),
+                csvEscape(getUploadFilename(attachment)),
+              ].join(","),
+            );
+          });
         });
 
         attachmentsFolder.file("index.csv", indexLines.join("\n"));
         attachmentsFolder.file(
           "README.txt",
-          "Place screenshots/tracking proofs here before submitting.",
+          exportProfile.uploadMode === "packet"
+            ? "Place screenshots/tracking proofs here before submitting."
+            : `Reference copies of every exhibit. Upload the files in upload/ to ${exportProfile.label}.`,
         );
       }
 
-      zip.file("evidence.pdf", bytes);
+      if (uploadFolder && parts.length > 0) {
+        parts.forEach((part, index) => {
+          uploadFolder.file(getPartFilename(index, parts.length), part.bytes);
+        });
+      } else if (uploadFolder) {
+        uploadFolder.file(getPdfFilename(), bytes);
+      } else {
+        zip.file("evidence.pdf", bytes);
+      }
       zip.file("summary.txt", summary);
+      zip.file("rebuttal-letter.txt", rebuttalLetter);
       zip.file("submission-notes.txt", submissionNotes);
-      zip.file("timeline.csv", csvLines.join("\n"));
+      zip.file("timeline.csv", timelineCsv);
+      if (exportForm.correspondence.length > 0) {
+        zip.file("correspondence.txt", correspondence);
+      }
+
+      const packetFiles: JSZip.JSZipObject[] = [];
+      zip.forEach((_, entry) => {
+        if (!entry.dir) {
+          packetFiles.push(entry);
+        }
+      });
+      const manifestEntries = await hashFiles(
+        await Promise.all(
+          packetFiles.map(async (entry) => ({
+            path: entry.name,
+            data: await entry.async("uint8array"),
+          })),
+        ),
+      );
+      zip.file(
+        "manifest.json",
+        JSON.stringify(
+          {
+            generated_at: new Date().toISOString(),
+            time_zone: outputFormat.timeZone,
+            locale: outputFormat.locale,
+            order_id: exportForm.order_id.trim(),
+            processor_case_number: exportForm.processor_case_number.trim(),
+            export_profile: exportProfile.id,
+            algorithm: "SHA-256",
+            files: manifestEntries.map((entry) => ({
+              path: entry.path,
+              size_bytes: entry.sizeBytes,
+              sha256: entry.sha256,
+            })),
+          },
+          null,
+          2,
+        ),
+      );
+      zip.file("manifest.txt", formatManifestText(manifestEntries));
 
       const zipBlob = await zip.generateAsync({ type: "blob" });
       const safeOrderId = sanitizeFilenamePart(orderIdTrimmed);
-      const zipName = `dispute-evidence-${safeOrderId}.zip`;
+      const zipName =
+        exportProfile.uploadMode === "packet"
+          ? `dispute-evidence-${safeOrderId}.zip`
+          : `${getUploadBaseName()}-dispute-evidence.zip`;
 
       const link = document.createElement("a");
       const zipUrl = URL.createObjectURL(zipBlob);
@@ -1020,20 +4793,123 @@ function EvidenceApp() {
   const showHumanVerificationMessage =
     !hasHumanToken && !isDev && !exportError && !zipError;
 
+  if (caseStatus !== "ready") {
+    return (
+      <div className="space-y-4">
+        <Link
+          to="/app/cases"
+          className="text-sm font-semibold text-slate-600 hover:text-slate-900"
+        >
+          ← All cases
+        </Link>
+        <p className="text-sm text-slate-600">
+          {caseStatus === "missing"
+            ? "This case does not exist in this browser. It may have been deleted or saved on another device."
+            : "Loading case..."}
+        </p>
+        {draftError && <p className="text-sm text-red-600">{draftError}</p>}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-10">
       <div className="space-y-2">
+        <Link
+          to="/app/cases"
+          className="text-sm font-semibold text-slate-600 hover:text-slate-900"
+        >
+          ← All cases
+        </Link>
         <h1 className="text-3xl font-semibold text-slate-900">
           Chargeback Evidence Generator
         </h1>
         <p className="text-sm text-slate-600">
           Complete the fields below to generate your evidence packet.
         </p>
+        <p className="text-xs text-slate-500">
+          {draftSavedAt
+            ? `Case autosaved in this browser at ${formatDateTime(
+                new Date(draftSavedAt),
+                outputFormat,
+              )}, attachments included. Nothing is uploaded.`
+            : "Cases, including attachments, autosave in this browser. Nothing is uploaded."}
+        </p>
+        {draftError && <p className="text-sm text-red-600">{draftError}</p>}
       </div>
 
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold text-slate-900">Case status</h2>
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <label htmlFor="case_status" className="text-sm font-semibold">
+              Status
+            </label>
+            <select
+              id="case_status"
+              className={inputClassName}
+              value={caseDetails.status}
+              onChange={(event) =>
+                updateCaseDetails("status", event.target.value as CaseStatus)
+              }
+            >
+              {CASE_STATUSES.map((status) => (
+                <option key={status.value} value={status.value}>
+                  {status.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="submitted_date" className="text-sm font-semibold">
+              Submitted On
+            </label>
+            <input
+              id="submitted_date"
+              type="date"
+              className={`${inputClassName} disabled:opacity-50`}
+              value={caseDetails.submittedDate}
+              disabled={!hasSubmittedDate(caseDetails.status)}
+              onChange={(event) =>
+                updateCaseDetails("submittedDate", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="resolved_date" className="text-sm font-semibold">
+              Resolved On
+            </label>
+            <input
+              id="resolved_date"
+              type="date"
+              className={`${inputClassName} disabled:opacity-50`}
+              value={caseDetails.resolvedDate}
+              disabled={!hasResolvedDate(caseDetails.status)}
+              onChange={(event) =>
+                updateCaseDetails("resolvedDate", event.target.value)
+              }
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="outcome_notes" className="text-sm font-semibold">
+            Outcome Notes
+          </label>
+          <textarea
+            id="outcome_notes"
+            className={`${inputClassName} min-h-[80px]`}
+            value={caseDetails.outcomeNotes}
+            onChange={(event) =>
+              updateCaseDetails("outcomeNotes", event.target.value)
+            }
+            placeholder="e.g. Reversed in our favor; funds returned on the next payout"
+          />
+        </div>
+      </section>
+
       <section className="space-y-6">
         <h2 className="text-lg font-semibold text-slate-900">Dispute details</h2>
-        <div className="grid gap-4 md:grid-cols-2">
+        <div className="grid gap-4 md:grid-cols-3">
           <div className="space-y-2">
             <label htmlFor="merchant_name" className="text-sm font-semibold">
               Merchant Name
@@ -1063,6 +4939,23 @@ function EvidenceApp() {
               <p className="text-sm text-red-600">Order ID is required.</p>
             )}
           </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="processor_case_number"
+              className="text-sm font-semibold"
+            >
+              Processor Case Number
+            </label>
+            <input
+              id="processor_case_number"
+              className={inputClassName}
+              value={form.processor_case_number}
+              onChange={(event) =>
+                updateField("processor_case_number", event.target.value)
+              }
+              placeholder="Optional, e.g. dp_1NfA2x"
+            />
+          </div>
         </div>
 
         <div className="grid gap-4 md:grid-cols-2">
@@ -1077,6 +4970,7 @@ function EvidenceApp() {
               onChange={(event) => updateField("amount", event.target.value)}
               placeholder="120.00"
             />
+            {renderFieldIssues("amount")}
           </div>
           <div className="space-y-2">
             <label htmlFor="currency" className="text-sm font-semibold">
@@ -1089,8 +4983,61 @@ function EvidenceApp() {
               onChange={(event) => updateField("currency", event.target.value)}
               placeholder="USD"
             />
+            {renderFieldIssues("currency")}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="locale" className="text-sm font-semibold">
+              Output Locale
+            </label>
+            <select
+              id="locale"
+              className={inputClassName}
+              value={form.locale}
+              onChange={(event) => updateField("locale", event.target.value)}
+            >
+              <option value="">Browser default ({getLocalLocale()})</option>
+              {COMMON_LOCALES.map((locale) => (
+                <option key={locale.value} value={locale.value}>
+                  {locale.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="time_zone" className="text-sm font-semibold">
+              Output Time Zone
+            </label>
+            <input
+              id="time_zone"
+              className={inputClassName}
+              list="output_time_zones"
+              value={form.time_zone}
+              onChange={(event) => updateField("time_zone", event.target.value)}
+              placeholder={getLocalTimeZone()}
+            />
+            <datalist id="output_time_zones">
+              {COMMON_TIME_ZONES.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+            {hasValue(form.time_zone) &&
+              !isValidTimeZone(form.time_zone.trim()) && (
+                <p className="text-xs text-amber-600">
+                  Unknown time zone; outputs use {outputFormat.timeZone}.
+                </p>
+              )}
           </div>
         </div>
+        <p className="text-xs text-slate-500">
+          Amounts, dates, and times in the PDF, letter, and ZIP are formatted
+          as{" "}
+          {formatMoney(form.amount || "0", form.currency, outputFormat)} ·{" "}
+          {formatDateTime(new Date(), outputFormat)}, and every output states
+          the time zone.
+        </p>
 
         <div className="space-y-2">
           <label htmlFor="dispute_reason" className="text-sm font-semibold">
@@ -1101,10 +5048,7 @@ function EvidenceApp() {
             className={inputClassName}
             value={form.dispute_reason}
             onChange={(event) =>
-              updateField(
-                "dispute_reason",
-                event.target.value as DisputeReason,
-              )
+              selectDisputeReason(event.target.value as DisputeReason)
             }
           >
             {DISPUTE_REASONS.map((reasonOption) => (
@@ -1115,6 +5059,133 @@ function EvidenceApp() {
           </select>
         </div>
 
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="card_network" className="text-sm font-semibold">
+              Card Network
+            </label>
+            <select
+              id="card_network"
+              className={inputClassName}
+              value={form.card_network}
+              onChange={(event) =>
+                selectCardNetwork(event.target.value as CardNetwork | "")
+              }
+            >
+              <option value="">Not specified</option>
+              {CARD_NETWORKS.map((network) => (
+                <option key={network.value} value={network.value}>
+                  {network.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="reason_code" className="text-sm font-semibold">
+              Reason Code
+            </label>
+            <select
+              id="reason_code"
+              className={inputClassName}
+              value={form.reason_code}
+              disabled={!form.card_network}
+              onChange={(event) => selectReasonCode(event.target.value)}
+            >
+              <option value="">
+                {form.card_network ? "Select a code" : "Choose a network first"}
+              </option>
+              {REASON_CODES.filter(
+                (item) => item.network === form.card_network,
+              ).map((item) => (
+                <option key={item.code} value={item.code}>
+                  {item.code} — {item.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {reasonCode && (
+          <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-700">
+            <p className="font-semibold text-slate-900">
+              {formatReasonCode(reasonCode)}
+            </p>
+            <ul className="list-disc space-y-1 pl-5">
+              {reasonCode.requirements.map((requirement) => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+            <p className="text-xs text-slate-500">
+              Remedy: {reasonCode.remedy}
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label
+              htmlFor="dispute_opened_date"
+              className="text-sm font-semibold"
+            >
+              Dispute Opened
+            </label>
+            <input
+              id="dispute_opened_date"
+              type="date"
+              className={inputClassName}
+              value={form.dispute_opened_date}
+              onChange={(event) =>
+                updateField("dispute_opened_date", event.target.value)
+              }
+            />
+            {renderFieldIssues("dispute_opened_date")}
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="response_due_date"
+              className="text-sm font-semibold"
+            >
+              Processor Due Date
+            </label>
+            <input
+              id="response_due_date"
+              type="date"
+              className={inputClassName}
+              value={form.response_due_date}
+              onChange={(event) =>
+                updateField("response_due_date", event.target.value)
+              }
+            />
+            {renderFieldIssues("response_due_date")}
+          </div>
+        </div>
+        {responseDeadline ? (
+          <div
+            className={`space-y-1 rounded-lg border px-4 py-3 text-sm ${
+              deadlineLevel === "overdue" || deadlineLevel === "urgent"
+                ? "border-rose-200 bg-rose-50 text-rose-700"
+                : deadlineLevel === "soon"
+                  ? "border-amber-200 bg-amber-50 text-amber-700"
+                  : "border-slate-200 bg-white text-slate-700"
+            }`}
+          >
+            <p className="font-semibold">{deadlineMessage}</p>
+            <p className="text-xs">
+              Response due{" "}
+              {describeResponseDeadline(responseDeadline, outputFormat)}.
+            </p>
+            {deadlineWarnings.map((warning) => (
+              <p key={warning} className="text-xs">
+                {warning}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">
+            Enter the processor due date, or the dispute opened date and card
+            network, to track the response deadline.
+          </p>
+        )}
+
         <div className="grid gap-4 md:grid-cols-2">
           <div className="space-y-2">
             <label htmlFor="customer_email" className="text-sm font-semibold">
@@ -1129,6 +5200,7 @@ function EvidenceApp() {
               }
               placeholder="customer@example.com"
             />
+            {renderFieldIssues("customer_email")}
           </div>
           <div className="space-y-2">
             <label htmlFor="ip_address" className="text-sm font-semibold">
@@ -1141,6 +5213,7 @@ function EvidenceApp() {
               onChange={(event) => updateField("ip_address", event.target.value)}
               placeholder="203.0.113.45"
             />
+            {renderFieldIssues("ip_address")}
           </div>
         </div>
 
@@ -1173,6 +5246,7 @@ function EvidenceApp() {
               }
               placeholder="1Z999AA10123456784"
             />
+            {renderFieldIssues("tracking_number")}
           </div>
           <div className="space-y-2">
             <label htmlFor="carrier" className="text-sm font-semibold">
@@ -1199,6 +5273,7 @@ function EvidenceApp() {
                 updateField("delivery_date", event.target.value)
               }
             />
+            {renderFieldIssues("delivery_date")}
           </div>
         </div>
 
@@ -1213,6 +5288,7 @@ function EvidenceApp() {
             onChange={(event) => updateField("policy_url", event.target.value)}
             placeholder="https://example.com/refund-policy"
           />
+          {renderFieldIssues("policy_url")}
         </div>
 
         <div className="space-y-2">
@@ -1250,6 +5326,68 @@ function EvidenceApp() {
             placeholder="Customer confirmed delivery on 2026-02-12."
           />
         </div>
+
+        <div className="space-y-2">
+          <label
+            htmlFor="correspondence_import"
+            className="text-sm font-semibold"
+          >
+            Import customer emails (.eml or .mbox)
+          </label>
+          <input
+            id="correspondence_import"
+            type="file"
+            multiple
+            accept=".eml,.mbox,message/rfc822,application/mbox"
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              event.currentTarget.value = "";
+              void importCorrespondence(files);
+            }}
+          />
+          <p className="text-xs text-slate-500">
+            Parsed on your device. Messages are merged into one chronological
+            correspondence exhibit (Exhibit {correspondenceLabel}) with inline
+            images, and customer communications are marked present.
+          </p>
+          {correspondenceError && (
+            <p className="text-sm text-red-600">{correspondenceError}</p>
+          )}
+          {form.correspondence.length > 0 && (
+            <ul className="space-y-2">
+              {form.correspondence.map((message) => (
+                <li
+                  key={message.messageId}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm"
+                >
+                  <div className="space-y-1">
+                    <p className="font-semibold text-slate-800">
+                      {message.subject || "(no subject)"}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatCorrespondenceDate(
+                        message.date,
+                        outputFormat,
+                      )}{" "}
+                      ·{" "}
+                      {message.from || "Unknown sender"}
+                      {message.images.length > 0
+                        ? ` · ${message.images.length} inline image(s)`
+                        : ""}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeCorrespondence(message.messageId)}
+                    className="text-xs font-semibold text-slate-500 hover:text-slate-900"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </section>
 
       <section className="space-y-4">
@@ -1257,7 +5395,68 @@ function EvidenceApp() {
           <h2 className="text-lg font-semibold text-slate-900">
             Recommended evidence
           </h2>
-          <span className="text-xs text-slate-500">For {reasonLabel}</span>
+          <span className="text-xs text-slate-500">
+            For {reasonLabel}
+            {reasonCode &&
+              ` · ${getCardNetworkLabel(reasonCode.network)} ${reasonCode.code}`}
+          </span>
+        </div>
+        <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-900">
+              Evidence strength
+            </span>
+            <span
+              className={`font-semibold ${
+                evidenceScore.level === "strong"
+                  ? "text-emerald-700"
+                  : evidenceScore.level === "moderate"
+                    ? "text-amber-700"
+                    : "text-rose-600"
+              }`}
+            >
+              {evidenceScore.score}/100 ·{" "}
+              {evidenceScore.level === "strong"
+                ? "Strong"
+                : evidenceScore.level === "moderate"
+                  ? "Moderate"
+                  : "Weak"}
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+            <div
+              className={`h-full rounded-full ${
+                evidenceScore.level === "strong"
+                  ? "bg-emerald-500"
+                  : evidenceScore.level === "moderate"
+                    ? "bg-amber-500"
+                    : "bg-rose-500"
+              }`}
+              style={{ width: `${evidenceScore.score}%` }}
+            />
+          </div>
+          {evidenceScore.penalties.map((penalty) => (
+            <p key={penalty.message} className="text-xs text-rose-600">
+              −{penalty.points}: {penalty.message}
+            </p>
+          ))}
+          {evidenceScore.actions.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-semibold text-slate-500">
+                What would raise it most
+              </p>
+              <ul className="space-y-1 text-slate-700">
+                {evidenceScore.actions.slice(0, 3).map((action) => (
+                  <li key={action.label} className="flex gap-2">
+                    <span className="w-8 shrink-0 text-xs font-semibold text-emerald-700">
+                      +{action.gain}
+                    </span>
+                    <span>{action.label}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
         <div className="grid gap-3 md:grid-cols-2">
           {evidenceItems.map((item) => (
@@ -1278,51 +5477,417 @@ function EvidenceApp() {
                     : "text-slate-500"
                 }`}
               >
-                {item.priority === "critical" ? "Critical" : "Recommended"}
-              </span>
+                {item.priority === "critical" ? "Critical" : "Recommended"}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-slate-900">
+            Custom evidence items
+          </h2>
+          <p className="text-sm text-slate-600">
+            Add items your business relies on, such as login activity after
+            purchase. They are saved in this browser and join the checklist for
+            the reasons you assign.
+          </p>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="custom_label" className="text-sm font-semibold">
+              Label
+            </label>
+            <input
+              id="custom_label"
+              className={inputClassName}
+              value={customEvidenceDraft.label}
+              onChange={(event) =>
+                updateCustomEvidenceDraft("label", event.target.value)
+              }
+              placeholder="Login activity after purchase"
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="custom_tooltip" className="text-sm font-semibold">
+              Tooltip
+            </label>
+            <input
+              id="custom_tooltip"
+              className={inputClassName}
+              value={customEvidenceDraft.tooltip}
+              onChange={(event) =>
+                updateCustomEvidenceDraft("tooltip", event.target.value)
+              }
+              placeholder="Optional explanation for reviewers"
+            />
+          </div>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="custom_rule" className="text-sm font-semibold">
+              Present when
+            </label>
+            <select
+              id="custom_rule"
+              className={inputClassName}
+              value={customEvidenceDraft.ruleKind}
+              onChange={(event) =>
+                updateCustomEvidenceDraft(
+                  "ruleKind",
+                  event.target.value as CustomEvidenceRule["kind"],
+                )
+              }
+            >
+              <option value="timeline_category">
+                The timeline has an event of a category
+              </option>
+              <option value="field">A form field is filled in</option>
+              <option value="attachment_tag">
+                An attachment has a tag
+              </option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="custom_rule_value" className="text-sm font-semibold">
+              {customEvidenceDraft.ruleKind === "field"
+                ? "Field"
+                : customEvidenceDraft.ruleKind === "attachment_tag"
+                  ? "Tag"
+                  : "Category"}
+            </label>
+            {customEvidenceDraft.ruleKind === "field" ? (
+              <select
+                id="custom_rule_value"
+                className={inputClassName}
+                value={customEvidenceDraft.field}
+                onChange={(event) =>
+                  updateCustomEvidenceDraft(
+                    "field",
+                    event.target.value as TextFieldKey,
+                  )
+                }
+              >
+                {CUSTOM_EVIDENCE_FIELDS.map((field) => (
+                  <option key={field.value} value={field.value}>
+                    {field.label}
+                  </option>
+                ))}
+              </select>
+            ) : customEvidenceDraft.ruleKind === "attachment_tag" ? (
+              <input
+                id="custom_rule_value"
+                className={inputClassName}
+                value={customEvidenceDraft.tag}
+                onChange={(event) =>
+                  updateCustomEvidenceDraft("tag", event.target.value)
+                }
+                placeholder="cancellation-flow"
+              />
+            ) : (
+              <select
+                id="custom_rule_value"
+                className={inputClassName}
+                value={customEvidenceDraft.category}
+                onChange={(event) =>
+                  updateCustomEvidenceDraft(
+                    "category",
+                    event.target.value as TimelineCategory,
+                  )
+                }
+              >
+                {TIMELINE_CATEGORIES.map((category) => (
+                  <option key={category.value} value={category.value}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+        <div className="grid gap-3 md:grid-cols-3">
+          {DISPUTE_REASONS.map((reasonOption) => (
+            <label
+              key={reasonOption.value}
+              className="flex items-center justify-between gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            >
+              <span>{reasonOption.label}</span>
+              <select
+                className="rounded-md border border-slate-200 px-2 py-1 text-xs"
+                value={customEvidenceDraft.priorities[reasonOption.value] ?? ""}
+                onChange={(event) =>
+                  setCustomEvidencePriority(
+                    reasonOption.value,
+                    event.target.value as EvidencePriority | "",
+                  )
+                }
+              >
+                <option value="">Not used</option>
+                <option value="recommended">Recommended</option>
+                <option value="critical">Critical</option>
+              </select>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={addCustomEvidence}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700"
+          >
+            Add Item
+          </button>
+          <button
+            type="button"
+            onClick={exportCustomEvidence}
+            disabled={customEvidence.length === 0}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <label className="cursor-pointer rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700">
+            Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.currentTarget.value = "";
+                if (file) {
+                  void importCustomEvidence(file);
+                }
+              }}
+            />
+          </label>
+        </div>
+        {customEvidenceError && (
+          <p className="text-sm text-red-600">{customEvidenceError}</p>
+        )}
+        {customEvidence.length > 0 && (
+          <ul className="space-y-2">
+            {customEvidence.map((entry) => (
+              <li
+                key={entry.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              >
+                <div className="space-y-0.5">
+                  <p className="font-semibold">{entry.label}</p>
+                  <p className="text-xs text-slate-500">
+                    {describeCustomEvidenceRule(entry.rule)}{" "}
+                    {DISPUTE_REASONS.filter(
+                      (reasonOption) => entry.priorities[reasonOption.value],
+                    )
+                      .map(
+                        (reasonOption) =>
+                          `${reasonOption.label}: ${
+                            entry.priorities[reasonOption.value] === "critical"
+                              ? "Critical"
+                              : "Recommended"
+                          }`,
+                      )
+                      .join(" · ")}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeCustomEvidence(entry.id)}
+                  className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">Timeline</h2>
+          <span className="text-xs text-slate-500">
+            Sorted chronologically · sentence case in exports
+          </span>
+        </div>
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <label htmlFor="timeline_date" className="text-sm font-semibold">
+              Date
+            </label>
+            <input
+              id="timeline_date"
+              type="date"
+              className={inputClassName}
+              value={timelineDraft.date}
+              onChange={(event) =>
+                updateTimelineDraft("date", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="timeline_time" className="text-sm font-semibold">
+              Time
+            </label>
+            <input
+              id="timeline_time"
+              type="time"
+              className={inputClassName}
+              value={timelineDraft.time}
+              onChange={(event) =>
+                updateTimelineDraft("time", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="timeline_time_zone"
+              className="text-sm font-semibold"
+            >
+              Time zone
+            </label>
+            <input
+              id="timeline_time_zone"
+              list="timeline_time_zones"
+              className={inputClassName}
+              value={timelineDraft.timeZone}
+              onChange={(event) =>
+                updateTimelineDraft("timeZone", event.target.value)
+              }
+              placeholder="America/New_York"
+            />
+            <datalist id="timeline_time_zones">
+              {COMMON_TIME_ZONES.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="timeline_category"
+              className="text-sm font-semibold"
+            >
+              Category
+            </label>
+            <select
+              id="timeline_category"
+              className={inputClassName}
+              value={timelineDraft.category}
+              onChange={(event) =>
+                updateTimelineDraft(
+                  "category",
+                  event.target.value as TimelineCategory,
+                )
+              }
+            >
+              {TIMELINE_CATEGORIES.map((category) => (
+                <option key={category.value} value={category.value}>
+                  {category.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <label htmlFor="timeline_source" className="text-sm font-semibold">
+              Source
+            </label>
+            <input
+              id="timeline_source"
+              className={inputClassName}
+              value={timelineDraft.source}
+              onChange={(event) =>
+                updateTimelineDraft("source", event.target.value)
+              }
+              placeholder="Shopify order log"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <label
+              htmlFor="timeline_description"
+              className="text-sm font-semibold"
+            >
+              Description
+            </label>
+            <div className="flex flex-col gap-3 md:flex-row">
+              <input
+                id="timeline_description"
+                className={inputClassName}
+                value={timelineDraft.description}
+                onChange={(event) =>
+                  updateTimelineDraft("description", event.target.value)
+                }
+                placeholder="Order shipped via UPS Ground"
+              />
+              <button
+                type="button"
+                onClick={addTimelineEvent}
+                className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700"
+              >
+                Add Event
+              </button>
             </div>
-          ))}
-        </div>
-      </section>
-
-      <section className="space-y-4">
-        <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-slate-900">Timeline</h2>
-          <span className="text-xs text-slate-500">
-            Normalized to sentence case in exports
-          </span>
-        </div>
-        <div className="flex flex-col gap-3 md:flex-row">
-          <input
-            id="timeline"
-            className={inputClassName}
-            value={timelineInput}
-            onChange={(event) => setTimelineInput(event.target.value)}
-            placeholder="2026-02-10: Order shipped"
-          />
-          <button
-            type="button"
-            onClick={addTimelineEvent}
-            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700"
-          >
-            Add Event
-          </button>
+          </div>
         </div>
+        {timelineError && (
+          <p className="text-sm text-red-600">{timelineError}</p>
+        )}
 
         <ul className="space-y-2">
-          {form.timeline.map((event, index) => (
+          {form.timeline.map((entry) => (
             <li
-              key={`${event}-${index}`}
-              className="flex items-start justify-between gap-4 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+              key={entry.id}
+              className="space-y-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
             >
-              <span>{event}</span>
-              <button
-                type="button"
-                onClick={() => removeTimelineEvent(index)}
-                className="text-xs font-semibold text-slate-500 hover:text-slate-700"
-              >
-                Remove
-              </button>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-0.5">
+                  <p className="text-xs text-slate-500">
+                    {formatTimelineTimestamp(entry, outputFormat)} ·{" "}
+                    {getTimelineCategoryLabel(entry.category)}
+                    {entry.source && ` · ${entry.source}`}
+                  </p>
+                  <p>{entry.description}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeTimelineEvent(entry.id)}
+                  className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+                >
+                  Remove
+                </button>
+              </div>
+              {timelineIssues.get(entry.id)?.map((issue) => (
+                <p key={issue} className="text-xs text-amber-700">
+                  {issue}
+                </p>
+              ))}
+              {hasAttachments && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-slate-500">See exhibit:</span>
+                  {attachments.map((attachment) => {
+                    const linked = entry.attachmentIds.includes(attachment.id);
+                    return (
+                      <button
+                        key={attachment.id}
+                        type="button"
+                        title={attachment.file.name}
+                        onClick={() =>
+                          toggleTimelineExhibit(entry.id, attachment.id)
+                        }
+                        className={`rounded-full border px-2 py-0.5 text-xs font-semibold ${
+                          linked
+                            ? "border-slate-900 bg-slate-900 text-white"
+                            : "border-slate-200 text-slate-500 hover:text-slate-700"
+                        }`}
+                      >
+                        {exhibitLabels.get(attachment.id)}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
             </li>
           ))}
         </ul>
@@ -1335,7 +5900,10 @@ function EvidenceApp() {
           </h2>
           <p className="text-sm text-slate-600">
             Uploading is disabled. Files stay on your device and are bundled in
-            the ZIP.
+            the ZIP. PNG and JPEG images are also embedded in the PDF as exhibit
+            pages, with the note as a caption, and PDF attachments are merged in
+            behind an exhibit separator sheet. Tag what each file shows so it
+            counts toward the checklist and is grouped in the exhibit index.
           </p>
         </div>
         <input
@@ -1351,13 +5919,16 @@ function EvidenceApp() {
           <p className="text-sm text-slate-500">No attachments selected.</p>
         ) : (
           <ul className="space-y-3">
-            {attachments.map((attachment) => (
+            {attachments.map((attachment, index) => (
               <li
                 key={attachment.id}
                 className="space-y-3 rounded-xl border border-slate-200 bg-white p-4"
               >
                 <div className="flex items-center justify-between text-sm font-semibold">
-                  <span>{attachment.file.name}</span>
+                  <span>
+                    Exhibit {exhibitLabels.get(attachment.id)} ·{" "}
+                    {attachment.file.name}
+                  </span>
                   <span className="text-xs font-normal text-slate-500">
                     {attachment.file.size} bytes
                   </span>
@@ -1371,13 +5942,59 @@ function EvidenceApp() {
                     updateAttachmentNote(attachment.id, event.target.value)
                   }
                 />
-                <button
-                  type="button"
-                  className="text-xs font-semibold text-slate-500 hover:text-slate-700"
-                  onClick={() => removeAttachment(attachment.id)}
-                >
-                  Remove
-                </button>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-slate-500">Shows:</span>
+                  {[
+                    ...ATTACHMENT_TAGS.map((tag) => tag.value),
+                    ...customAttachmentTags,
+                    ...attachment.tags.filter(
+                      (tag) =>
+                        !ATTACHMENT_TAGS.some((item) => item.value === tag) &&
+                        !customAttachmentTags.includes(tag),
+                    ),
+                  ].map((tag) => {
+                    const tagged = attachment.tags.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleAttachmentTag(attachment.id, tag)}
+                        className={`rounded-full border px-2 py-0.5 text-xs font-semibold ${
+                          tagged
+                            ? "border-slate-900 bg-slate-900 text-white"
+                            : "border-slate-200 text-slate-500 hover:text-slate-700"
+                        }`}
+                      >
+                        {getAttachmentTagLabel(tag)}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center gap-4">
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-slate-500 hover:text-slate-700 disabled:opacity-40"
+                    onClick={() => moveAttachment(attachment.id, -1)}
+                    disabled={index === 0}
+                  >
+                    Move up
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-slate-500 hover:text-slate-700 disabled:opacity-40"
+                    onClick={() => moveAttachment(attachment.id, 1)}
+                    disabled={index === attachments.length - 1}
+                  >
+                    Move down
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+                    onClick={() => removeAttachment(attachment.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
               </li>
             ))}
           </ul>
@@ -1443,6 +6060,172 @@ function EvidenceApp() {
         </div>
       </section>
 
+      <section className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-slate-900">Branding</h2>
+          <p className="text-sm text-slate-600">
+            Applied to the PDF cover letterhead and the header on every page so
+            the packet reads as coming from your company.
+          </p>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="branding_logo" className="text-sm font-semibold">
+              Logo (PNG, JPEG, or SVG)
+            </label>
+            <input
+              id="branding_logo"
+              type="file"
+              accept="image/png,image/jpeg,image/svg+xml,.svg"
+              onChange={(event) => {
+                const file = event.target.files?.[0] ?? null;
+                updateBranding("logo", file);
+                event.currentTarget.value = "";
+              }}
+            />
+            {branding.logo && (
+              <div className="flex items-center gap-3 text-xs text-slate-500">
+                <span>
+                  {branding.logo.name}
+                  {isSvgFile(branding.logo) ? " · rasterized for the PDF" : ""}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateBranding("logo", null)}
+                  className="font-semibold text-slate-600 hover:text-slate-900"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="branding_accent_color"
+              className="text-sm font-semibold"
+            >
+              Accent color
+            </label>
+            <input
+              id="branding_accent_color"
+              type="color"
+              className="h-10 w-20 cursor-pointer rounded border border-slate-200"
+              value={branding.accentColor}
+              onChange={(event) =>
+                updateBranding("accentColor", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="branding_company_address"
+              className="text-sm font-semibold"
+            >
+              Company address
+            </label>
+            <textarea
+              id="branding_company_address"
+              className={`${inputClassName} min-h-[80px]`}
+              value={branding.companyAddress}
+              onChange={(event) =>
+                updateBranding("companyAddress", event.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="branding_support_contact"
+              className="text-sm font-semibold"
+            >
+              Support contact
+            </label>
+            <input
+              id="branding_support_contact"
+              className={inputClassName}
+              value={branding.supportContact}
+              onChange={(event) =>
+                updateBranding("supportContact", event.target.value)
+              }
+              placeholder="support@example.com · +1 555 0100"
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="branding_watermark"
+              className="text-sm font-semibold"
+            >
+              Watermark
+            </label>
+            <select
+              id="branding_watermark"
+              className={inputClassName}
+              value={branding.watermark}
+              onChange={(event) =>
+                updateBranding(
+                  "watermark",
+                  event.target.value as BrandingProfile["watermark"],
+                )
+              }
+            >
+              <option value="default">{DEFAULT_WATERMARK_TEXT}</option>
+              <option value="custom">Custom text</option>
+              <option value="none">No watermark</option>
+            </select>
+            {branding.watermark === "custom" && (
+              <input
+                className={inputClassName}
+                value={branding.watermarkText}
+                onChange={(event) =>
+                  updateBranding("watermarkText", event.target.value)
+                }
+                placeholder="CONFIDENTIAL — ACME CO."
+              />
+            )}
+          </div>
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={branding.showToolCredit}
+              onChange={(event) =>
+                updateBranding("showToolCredit", event.target.checked)
+              }
+            />
+            <span>Show “Generated by DisputeShield” in the page footer.</span>
+          </label>
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">
+            Rebuttal letter
+          </h2>
+          <button
+            type="button"
+            onClick={generateRebuttalDraft}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700"
+          >
+            Generate draft
+          </button>
+        </div>
+        <p className="text-sm text-slate-600">
+          Drafted from the {reasonLabel.toLowerCase()} template and the evidence
+          marked present. Edit freely; it becomes the first page after the
+          cover and rebuttal-letter.txt in the ZIP. If left empty, a fresh draft
+          is used.
+        </p>
+        <textarea
+          id="rebuttal_letter"
+          className={`${inputClassName} min-h-[320px] font-mono`}
+          value={form.rebuttal_letter}
+          onChange={(event) =>
+            updateField("rebuttal_letter", event.target.value)
+          }
+          placeholder="Click Generate draft to start from the template."
+        />
+      </section>
+
       <section className="space-y-4">
         <h2 className="text-lg font-semibold text-slate-900">Human verification</h2>
         {isDev ? (
@@ -1483,19 +6266,244 @@ function EvidenceApp() {
             <span>{pdfEstimateText}</span>
             <span>{attachmentsEstimateText}</span>
           </div>
-          {showPdfLimitWarning && (
-            <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-700">
-              Warning: this PDF may exceed common bank limits (2–3MB or high
-              page count).
+          <div className="mt-3 space-y-1">
+            <label
+              htmlFor="export_profile"
+              className="text-sm font-semibold text-slate-700"
+            >
+              Export profile
+            </label>
+            <select
+              id="export_profile"
+              className={inputClassName}
+              value={exportProfileId}
+              onChange={(event) =>
+                setExportProfileId(event.target.value as ExportProfileId)
+              }
+            >
+              {Object.values(EXPORT_PROFILES).map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500">
+              {exportProfile.uploadMode === "packet"
+                ? "Full packet layout. Limits are common bank guidance and only produce warnings."
+                : `${
+                    exportProfile.uploadMode === "combined"
+                      ? "Single combined PDF"
+                      : "PDF plus separate exhibit files"
+                  } up to ${formatBytes(exportProfile.maxPdfBytes)}${
+                    exportProfile.maxPdfPages !== null
+                      ? ` and ${exportProfile.maxPdfPages} pages`
+                      : ""
+                  }; accepts ${exportProfile.acceptedKinds
+                    .map((kind) => kind.toUpperCase())
+                    .join(", ")}. Files to upload go in the ZIP’s upload/ folder.`}
+            </p>
+          </div>
+          <label className="mt-3 flex items-start gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={optimizeImages}
+              onChange={(event) => setOptimizeImages(event.target.checked)}
+            />
+            <span>
+              Optimize images to fit the size budget: when the packet is over
+              the {exportProfile.label} limits, PNG and JPEG exhibits are
+              downsampled and re-encoded as JPEG at stepped quality until it
+              fits.
+            </span>
+          </label>
+          <label className="mt-3 flex items-start gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={includeScoreInSummary}
+              onChange={(event) =>
+                setIncludeScoreInSummary(event.target.checked)
+              }
+            />
+            <span>
+              Include the evidence strength breakdown in summary.txt (internal
+              use; it is never added to the PDF).
+            </span>
+          </label>
+          {optimizationReport && (
+            <div
+              className={`mt-3 rounded-lg border px-3 py-2 ${
+                optimizationReport.fits
+                  ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                  : "border-red-200 bg-red-50 text-red-700"
+              }`}
+            >
+              <p>
+                Size budget: PDF{" "}
+                {formatBytes(optimizationReport.pdfBeforeBytes)} →{" "}
+                {formatBytes(optimizationReport.pdfAfterBytes)}
+                {optimizationReport.fits
+                  ? ` — fits the ${exportProfile.label} limits.`
+                  : ` — still over the ${exportProfile.label} limits.`}
+              </p>
+              {pdfParts.length > 0 && (
+                <p className="mt-1">
+                  Split into {pdfParts.length} parts:{" "}
+                  {pdfParts
+                    .map(
+                      (part, index) =>
+                        `${getPartFilename(index, pdfParts.length)} (${formatBytes(
+                          part.bytes.length,
+                        )})`,
+                    )
+                    .join(", ")}
+                  .
+                </p>
+              )}
+              {optimizationReport.images.length > 0 && (
+                <ul className="mt-1 list-disc space-y-1 pl-5">
+                  {optimizationReport.images.map((image) => (
+                    <li key={image.id}>
+                      Exhibit {exhibitLabels.get(image.id)}:{" "}
+                      {formatBytes(image.beforeBytes)} →{" "}
+                      {formatBytes(image.afterBytes)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {optimizationReport.oversizedIds.length > 0 && (
+                <div className="mt-2">
+                  <p className="font-semibold">
+                    Too large for the budget — compress, split, or remove:
+                  </p>
+                  <ul className="mt-1 list-disc space-y-1 pl-5">
+                    {optimizationReport.oversizedIds.map((id) => {
+                      const attachment = attachments.find(
+                        (item) => item.id === id,
+                      );
+                      const file = exhibitFiles.get(id) ?? attachment?.file;
+                      return (
+                        <li key={id}>
+                          Exhibit {exhibitLabels.get(id)} ·{" "}
+                          {attachment?.file.name} (
+                          {formatBytes(file?.size ?? 0)})
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
-          {showAttachmentSizeWarning && (
-            <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-700">
-              Warning: attachments are large and may push the ZIP over upload
-              limits.
-            </div>
+          <label className="mt-3 flex items-start gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={archivalExport}
+              onChange={(event) => setArchivalExport(event.target.checked)}
+            />
+            <span>
+              Archival export (PDF/A-style): embeds XMP metadata and an sRGB
+              output intent, flattens PNG images onto white and omits the
+              transparent watermark. It is not validated PDF/A, so check the
+              result if an acquirer requires strict conformance.
+            </span>
+          </label>
+          {archivalExport && hasMergedPdfs && (
+            <p className="mt-1 text-xs text-amber-700">
+              Merged PDF exhibits are copied as they are and may contain
+              transparency or fonts that are not embedded, which archival
+              checks reject. Print them to image or PDF/A first if that
+              matters.
+            </p>
           )}
-          {(showPdfLimitWarning || showAttachmentSizeWarning) && (
+          <label className="mt-3 flex items-start gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={redaction.enabled}
+              onChange={(event) =>
+                setRedaction((prev) => ({
+                  ...prev,
+                  enabled: event.target.checked,
+                }))
+              }
+            />
+            <span>
+              Mask customer PII in outputs: shortens the customer email to its
+              first letter and domain and hides SSNs and card numbers (except
+              the last 4 digits) in the PDF, ZIP, and rebuttal letter. The
+              form itself is not changed.
+            </span>
+          </label>
+          <label
+            className={`ml-6 mt-2 flex items-start gap-2 ${
+              redaction.enabled ? "text-slate-700" : "text-slate-400"
+            }`}
+          >
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={redaction.maskIpAddress}
+              disabled={!redaction.enabled}
+              onChange={(event) =>
+                setRedaction((prev) => ({
+                  ...prev,
+                  maskIpAddress: event.target.checked,
+                }))
+              }
+            />
+            <span>
+              Also mask the customer IP address: the last octet for IPv4, the
+              interface ID (last four groups) for IPv6.
+            </span>
+          </label>
+          <div className="mt-3 space-y-2">
+            <span className="text-sm font-semibold text-slate-700">
+              Field validation
+            </span>
+            <div className="grid gap-2 md:grid-cols-2">
+              {VALIDATION_RULES.map((rule) => (
+                <label
+                  key={rule.id}
+                  className="flex items-center justify-between gap-2 text-slate-700"
+                >
+                  <span>{rule.label}</span>
+                  <select
+                    className="rounded-md border border-slate-200 px-2 py-1 text-xs"
+                    value={validationLevels[rule.id]}
+                    onChange={(event) =>
+                      setValidationLevels((prev) => ({
+                        ...prev,
+                        [rule.id]: event.target.value as ValidationLevel,
+                      }))
+                    }
+                  >
+                    <option value="error">Block export</option>
+                    <option value="warning">Warn</option>
+                    <option value="off">Ignore</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+          {exportIssues.map((issue) => (
+            <div
+              key={issue.message}
+              className={`mt-3 rounded-lg border px-3 py-2 ${
+                issue.level === "error"
+                  ? "border-red-200 bg-red-50 text-red-700"
+                  : "border-amber-200 bg-amber-50 text-amber-700"
+              }`}
+            >
+              {issue.level === "error" ? "Blocked" : "Warning"}:{" "}
+              {issue.message}
+            </div>
+          ))}
+          {exportIssues.some(
+            (issue) => issue.category === "size" || issue.category === "pages",
+          ) && (
             <ul className="mt-3 list-disc space-y-1 pl-5 text-slate-600">
               <li>Consolidate screenshots into a single PDF.</li>
               <li>Include only the most relevant policy excerpts.</li>
@@ -1515,7 +6523,7 @@ function EvidenceApp() {
           <button
             type="button"
             onClick={downloadPdf}
-            disabled={!pdfUrl || pdfDirty}
+            disabled={!pdfUrl || pdfDirty || exportBlocked}
             className="rounded-full border border-slate-300 px-6 py-3 text-sm font-semibold text-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
           >
             Download PDF
@@ -1534,6 +6542,13 @@ function EvidenceApp() {
             PDF out of date — click Generate PDF again.
           </p>
         )}
+        {exportBlocked && (
+          <p className="text-xs text-red-600">
+            {profileBlocked
+              ? `Downloads are blocked until the packet fits the ${exportProfile.label} limits.`
+              : "Downloads are blocked until the field errors are fixed."}
+          </p>
+        )}
         {exportError && <p className="text-sm text-red-600">{exportError}</p>}
         {zipError && <p className="text-sm text-red-600">{zipError}</p>}
         {zipTip && <p className="text-sm text-slate-600">{zipTip}</p>}
@@ -1545,6 +6560,378 @@ function EvidenceApp() {
   );
 }
 
+function CaseList() {
+  const navigate = useNavigate();
+  const [cases, setCases] = useState<CaseRecord[] | null>(null);
+  const [casesError, setCasesError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | "all">("all");
+  const [reasonFilter, setReasonFilter] = useState<DisputeReason | "all">(
+    "all",
+  );
+  const [deadlineFilter, setDeadlineFilter] = useState<DeadlineFilter>("all");
+  const today = getTodayDate();
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCaseRecords()
+      .then((records) => {
+        if (!cancelled) {
+          setCases(records);
+        }
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!cancelled) {
+          setCases([]);
+          setCasesError(
+            "Saved cases could not be read. Your browser may be blocking IndexedDB.",
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const rows = (cases ?? [])
+    .map((record) => {
+      const deadline = getResponseDeadline(record.form);
+      return {
+        record,
+        deadline,
+        daysUntilDue: deadline ? daysBetween(today, deadline.dueDate) : null,
+      };
+    })
+    .filter(
+      ({ record, daysUntilDue }) =>
+        (statusFilter === "all" || record.status === statusFilter) &&
+        (reasonFilter === "all" ||
+          record.form.dispute_reason === reasonFilter) &&
+        matchesDeadlineFilter(record, daysUntilDue, deadlineFilter),
+    )
+    .sort((a, b) => {
+      const aDue = a.deadline?.dueDate ?? "";
+      const bDue = b.deadline?.dueDate ?? "";
+      if (aDue !== bDue) {
+        return !aDue ? 1 : !bDue ? -1 : aDue.localeCompare(bDue);
+      }
+      return b.record.savedAt.localeCompare(a.record.savedAt);
+    });
+  const countByStatus = (status: CaseStatus) =>
+    (cases ?? []).filter((record) => record.status === status).length;
+  const decidedCount = countByStatus("won") + countByStatus("lost");
+
+  const createCase = async () => {
+    const record = createCaseRecord(createId());
+    try {
+      await saveDraft(record.id, record);
+      navigate(`/app/cases/${record.id}`);
+    } catch (error) {
+      console.error(error);
+      setCasesError(
+        "The case could not be created. Your browser may be out of storage or blocking IndexedDB.",
+      );
+    }
+  };
+
+  const updateCaseStatus = (record: CaseRecord, status: CaseStatus) => {
+    const next = applyCaseStatus(record, status, today);
+    setCases((prev) =>
+      prev ? prev.map((item) => (item.id === record.id ? next : item)) : prev,
+    );
+    saveDraft(record.id, next).catch((error) => {
+      console.error(error);
+      setCasesError("The status change could not be saved.");
+    });
+  };
+
+  const removeCase = async (record: CaseRecord) => {
+    if (
+      !window.confirm(
+        `Delete the case for order ${
+          record.form.order_id.trim() || "—"
+        } and its attachments from this browser?`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteDraft(record.id);
+      setCases((prev) =>
+        prev ? prev.filter((item) => item.id !== record.id) : prev,
+      );
+    } catch (error) {
+      console.error(error);
+      setCasesError("The case could not be deleted.");
+    }
+  };
+
+  const wipeLocalData = async () => {
+    if (
+      !window.confirm(
+        "Delete every case, its attachments, custom evidence items, and validation settings from this browser? This cannot be undone.",
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteAllDrafts();
+      localStorage.removeItem(CUSTOM_EVIDENCE_STORAGE_KEY);
+      localStorage.removeItem(VALIDATION_STORAGE_KEY);
+      setCases([]);
+      setCasesError(null);
+    } catch (error) {
+      console.error(error);
+      setCasesError(
+        error instanceof Error
+          ? error.message
+          : "Local data could not be wiped.",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-semibold text-slate-900">Cases</h1>
+          <p className="text-sm text-slate-600">
+            Every case, including its attachments, is stored in this browser
+            only. Nothing is uploaded.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={createCase}
+          className="rounded-full bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-soft"
+        >
+          New case
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+        {CASE_STATUSES.map((status) => (
+          <span key={status.value}>
+            {status.label}:{" "}
+            <span className="font-semibold text-slate-900">
+              {countByStatus(status.value)}
+            </span>
+          </span>
+        ))}
+        {decidedCount > 0 && (
+          <span>
+            Win rate:{" "}
+            <span className="font-semibold text-slate-900">
+              {Math.round((countByStatus("won") / decidedCount) * 100)}%
+            </span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <select
+          aria-label="Filter by status"
+          className={inputClassName}
+          value={statusFilter}
+          onChange={(event) =>
+            setStatusFilter(event.target.value as CaseStatus | "all")
+          }
+        >
+          <option value="all">All statuses</option>
+          {CASE_STATUSES.map((status) => (
+            <option key={status.value} value={status.value}>
+              {status.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by dispute reason"
+          className={inputClassName}
+          value={reasonFilter}
+          onChange={(event) =>
+            setReasonFilter(event.target.value as DisputeReason | "all")
+          }
+        >
+          <option value="all">All reasons</option>
+          {DISPUTE_REASONS.map((reason) => (
+            <option key={reason.value} value={reason.value}>
+              {reason.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by deadline"
+          className={inputClassName}
+          value={deadlineFilter}
+          onChange={(event) =>
+            setDeadlineFilter(event.target.value as DeadlineFilter)
+          }
+        >
+          {DEADLINE_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>
+              {filter.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {casesError && <p className="text-sm text-red-600">{casesError}</p>}
+
+      {cases === null ? (
+        <p className="text-sm text-slate-600">Loading cases...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-slate-600">
+          {cases.length === 0
+            ? "No cases yet. Start one with New case."
+            : "No cases match these filters."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white">
+          <table className="w-full text-left text-sm text-slate-700">
+            <thead className="border-b border-slate-200 text-xs uppercase text-slate-500">
+              <tr>
+                <th className="px-4 py-3">Case</th>
+                <th className="px-4 py-3">Reason</th>
+                <th className="px-4 py-3">Amount</th>
+                <th className="px-4 py-3">Respond by</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Submitted</th>
+                <th className="px-4 py-3">Outcome</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ record, deadline, daysUntilDue }) => {
+                const format = getOutputFormat(record.form);
+                const isOpen = record.status === "draft";
+                return (
+                  <tr
+                    key={record.id}
+                    className="border-b border-slate-100 last:border-0"
+                  >
+                    <td className="px-4 py-3">
+                      <Link
+                        to={`/app/cases/${record.id}`}
+                        className="font-semibold text-slate-900 hover:underline"
+                      >
+                        {record.form.order_id.trim()
+                          ? `Order ${record.form.order_id.trim()}`
+                          : "Untitled case"}
+                      </Link>
+                      <div className="text-xs text-slate-500">
+                        {record.form.merchant_name.trim() || "—"} ·{" "}
+                        {record.attachments.length} attachment
+                        {record.attachments.length === 1 ? "" : "s"}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      {getReasonLabel(record.form.dispute_reason)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {hasValue(record.form.amount)
+                        ? formatMoney(
+                            record.form.amount,
+                            record.form.currency,
+                            format,
+                          )
+                        : "—"}
+                    </td>
+                    <td
+                      className={`px-4 py-3 ${
+                        isOpen && daysUntilDue !== null && daysUntilDue < 0
+                          ? "text-rose-700"
+                          : isOpen && daysUntilDue !== null && daysUntilDue <= 7
+                            ? "text-amber-700"
+                            : ""
+                      }`}
+                    >
+                      {deadline ? formatDate(deadline.dueDate, format) : "—"}
+                      {isOpen && daysUntilDue !== null && (
+                        <div className="text-xs">
+                          {daysUntilDue < 0
+                            ? `${-daysUntilDue} day${
+                                daysUntilDue === -1 ? "" : "s"
+                              } overdue`
+                            : daysUntilDue === 0
+                              ? "Due today"
+                              : `${daysUntilDue} day${
+                                  daysUntilDue === 1 ? "" : "s"
+                                } left`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        aria-label="Case status"
+                        className="rounded-md border border-slate-200 px-2 py-1 text-xs"
+                        value={record.status}
+                        onChange={(event) =>
+                          updateCaseStatus(
+                            record,
+                            event.target.value as CaseStatus,
+                          )
+                        }
+                      >
+                        {CASE_STATUSES.map((status) => (
+                          <option key={status.value} value={status.value}>
+                            {status.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      {record.submittedDate
+                        ? formatDate(record.submittedDate, format)
+                        : "—"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {record.status === "draft" ||
+                      record.status === "submitted"
+                        ? "Pending"
+                        : `${getCaseStatusLabel(record.status)}${
+                            record.resolvedDate
+                              ? ` on ${formatDate(record.resolvedDate, format)}`
+                              : ""
+                          }`}
+                      {record.outcomeNotes.trim() && (
+                        <div className="text-xs text-slate-500">
+                          {record.outcomeNotes.trim()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeCase(record)}
+                        className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={wipeLocalData}
+        className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+      >
+        Wipe all local data
+      </button>
+    </div>
+  );
+}
+
+function CaseEditor() {
+  const { id = "" } = useParams();
+  return <EvidenceApp key={id} caseId={id} />;
+}
+
 export default function App() {
   return (
     <BrowserRouter>
@@ -1556,7 +6943,7 @@ export default function App() {
             </Link>
             <nav className="flex items-center gap-6 text-sm font-semibold text-slate-600">
               <Link to="/">Home</Link>
-              <Link to="/app">App</Link>
+              <Link to="/app/cases">Cases</Link>
             </nav>
           </div>
         </header>
@@ -1564,11 +6951,20 @@ export default function App() {
         <div className="py-12">
           <Routes>
             <Route path="/" element={<Home />} />
+            <Route path="/app" element={<Navigate to="/app/cases" replace />} />
+            <Route
+              path="/app/cases"
+              element={
+                <div className="mx-auto max-w-6xl px-6">
+                  <CaseList />
+                </div>
+              }
+            />
             <Route
-              path="/app"
+              path="/app/cases/:id"
               element={
                 <div className="mx-auto max-w-6xl px-6">
-                  <EvidenceApp />
+                  <CaseEditor />
                 </div>
               }
             />
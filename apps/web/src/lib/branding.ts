@@ -0,0 +1,72 @@
+﻿import { PDFDocument, PDFImage, rgb } from "pdf-lib";
+import { flattenImage } from "./pdfMetadata";
+
+const LOGO_RASTER_SIZE = 600;
+
+export const parseHexColor = (hex: string) => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    return rgb(0, 0, 0);
+  }
+  const value = parseInt(match[1], 16);
+  return rgb(
+    ((value >> 16) & 0xff) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  );
+};
+
+export const isSvgFile = (file: File) =>
+  file.type === "image/svg+xml" || file.name.toLowerCase().endsWith(".svg");
+
+const rasterizeSvg = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const sourceWidth = image.naturalWidth || 300;
+    const sourceHeight = image.naturalHeight || 150;
+    const scale = LOGO_RASTER_SIZE / Math.max(sourceWidth, sourceHeight);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+    canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is unavailable");
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png"),
+    );
+    if (!blob) {
+      throw new Error(`Failed to rasterize ${file.name}`);
+    }
+    return blob.arrayBuffer();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// With `opaque`, PNG and SVG logos are flattened onto white for archival
+// output, which must not contain transparency.
+export const embedLogo = async (
+  pdfDoc: PDFDocument,
+  file: File,
+  opaque = false,
+): Promise<PDFImage> => {
+  const isPng =
+    file.type === "image/png" || file.name.toLowerCase().endsWith(".png");
+  if (!isSvgFile(file) && !isPng) {
+    return pdfDoc.embedJpg(await file.arrayBuffer());
+  }
+  const bytes = isSvgFile(file)
+    ? await rasterizeSvg(file)
+    : await file.arrayBuffer();
+  return pdfDoc.embedPng(
+    opaque ? await flattenImage(new Blob([bytes])) : bytes,
+  );
+};
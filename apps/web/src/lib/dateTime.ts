@@ -0,0 +1,147 @@
+﻿export const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "America/Toronto",
+  "America/Mexico_City",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Dublin",
+  "Europe/Lisbon",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Madrid",
+  "Europe/Amsterdam",
+  "Europe/Warsaw",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+export const getLocalTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseDateParts = (date: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return { year, month, day };
+};
+
+export const isValidDate = (date: string) => parseDateParts(date) !== null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => {
+  const parts = parseDateParts(date);
+  return parts
+    ? Date.UTC(parts.year, parts.month - 1, parts.day) / DAY_MS
+    : null;
+};
+
+export const getTodayDate = () => {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, "0"),
+    String(now.getDate()).padStart(2, "0"),
+  ].join("-");
+};
+
+export const addDays = (date: string, days: number) => {
+  const day = toDayNumber(date);
+  return day === null
+    ? ""
+    : new Date((day + days) * DAY_MS).toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string) => {
+  const start = toDayNumber(from);
+  const end = toDayNumber(to);
+  return start === null || end === null ? null : end - start;
+};
+
+export const isValidTime = (time: string) =>
+  /^([01]\d|2[0-3]):[0-5]\d$/.test(time.trim());
+
+const getTimeZoneOffset = (timeZone: string, instant: number) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour") % 24,
+    value("minute"),
+    value("second"),
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Wall-clock date/time in `timeZone` to epoch milliseconds. Without a valid
+// zone the wall-clock time is read as UTC; without a time, midnight is used.
+export const zonedDateTimeToUtc = (
+  date: string,
+  time: string,
+  timeZone: string,
+) => {
+  const parts = parseDateParts(date);
+  if (!parts) {
+    return null;
+  }
+  const [hour, minute] = isValidTime(time)
+    ? time.trim().split(":").map(Number)
+    : [0, 0];
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    hour,
+    minute,
+  );
+  if (!timeZone.trim() || !isValidTimeZone(timeZone.trim())) {
+    return wallClock;
+  }
+  const zone = timeZone.trim();
+  const firstGuess = wallClock - getTimeZoneOffset(zone, wallClock);
+  return wallClock - getTimeZoneOffset(zone, firstGuess);
+};
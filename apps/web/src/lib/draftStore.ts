@@ -0,0 +1,82 @@
+﻿const DATABASE_NAME = "disputeshield";
+const DATABASE_VERSION = 1;
+const DRAFT_STORE = "drafts";
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(DRAFT_STORE)) {
+        request.result.createObjectStore(DRAFT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once the transaction commits, not when the request succeeds, so
+// a saved draft is durable by the time the caller moves on.
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(DRAFT_STORE, mode);
+      const request = run(transaction.objectStore(DRAFT_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const loadDraft = async <T>(id: string) =>
+  (await runTransaction("readonly", (store) => store.get(id))) as
+    | T
+    | undefined;
+
+export const saveDraft = async <T>(id: string, draft: T) => {
+  await runTransaction("readwrite", (store) => store.put(draft, id));
+};
+
+export const deleteDraft = async (id: string) => {
+  await runTransaction("readwrite", (store) => store.delete(id));
+};
+
+export const listDrafts = async <T>() => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<Array<{ id: string; draft: T }>>(
+      (resolve, reject) => {
+        const drafts: Array<{ id: string; draft: T }> = [];
+        const transaction = database.transaction(DRAFT_STORE, "readonly");
+        const request = transaction.objectStore(DRAFT_STORE).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            drafts.push({ id: String(cursor.key), draft: cursor.value as T });
+            cursor.continue();
+          }
+        };
+        transaction.oncomplete = () => resolve(drafts);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      },
+    );
+  } finally {
+    database.close();
+  }
+};
+
+export const deleteAllDrafts = () =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DATABASE_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("Close other DisputeShield tabs and try again."));
+  });
@@ -0,0 +1,272 @@
+﻿export type EmailImage = {
+  name: string;
+  contentType: "image/png" | "image/jpeg";
+  data: string;
+};
+
+export type ParsedEmail = {
+  messageId: string;
+  from: string;
+  to: string;
+  date: string;
+  subject: string;
+  body: string;
+  images: EmailImage[];
+};
+
+type MimeEntity = {
+  headers: Map<string, string>;
+  body: string;
+};
+
+type CollectedContent = {
+  plain: string[];
+  html: string[];
+  images: EmailImage[];
+};
+
+const ENCODED_WORD = /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi;
+
+// Message bytes are kept as a "binary string" (one char per byte) until the
+// charset of each part is known.
+const bytesToBinary = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return binary;
+};
+
+const binaryToBytes = (binary: string) =>
+  Uint8Array.from(binary, (character) => character.charCodeAt(0) & 0xff);
+
+const decodeCharset = (binary: string, charset = "utf-8") => {
+  const bytes = binaryToBytes(binary);
+  try {
+    return new TextDecoder(charset.trim() || "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+};
+
+const decodeBase64 = (text: string) => {
+  try {
+    return atob(text.replace(/[^A-Za-z0-9+/=]/g, ""));
+  } catch {
+    return "";
+  }
+};
+
+const decodeQuotedPrintable = (text: string) =>
+  text
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+
+const decodeHeader = (value: string) =>
+  decodeCharset(value)
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(
+      ENCODED_WORD,
+      (_match, charset: string, encoding: string, text: string) =>
+        decodeCharset(
+          encoding.toUpperCase() === "B"
+            ? decodeBase64(text)
+            : decodeQuotedPrintable(text.replace(/_/g, " ")),
+          charset,
+        ),
+    )
+    .trim();
+
+const getParam = (value: string, name: string) => {
+  const match = new RegExp(`${name}\\*?=(?:"([^"]*)"|([^;\\s]+))`, "i").exec(
+    value,
+  );
+  return match ? (match[1] ?? match[2]) : "";
+};
+
+const parseEntity = (raw: string): MimeEntity => {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : "";
+
+  const headers = new Map<string, string>();
+  headerBlock
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(":");
+      if (colon <= 0) {
+        return;
+      }
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim());
+      }
+    });
+
+  return { headers, body };
+};
+
+const splitMultipart = (body: string, boundary: string) => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        parts.push(current.join("\n"));
+      }
+      if (line.startsWith(`${delimiter}--`)) {
+        return parts;
+      }
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  if (current) {
+    parts.push(current.join("\n"));
+  }
+  return parts;
+};
+
+const decodeTransferEncoding = (body: string, encoding = "") => {
+  const normalized = encoding.trim().toLowerCase();
+  if (normalized === "base64") {
+    return decodeBase64(body);
+  }
+  if (normalized === "quoted-printable") {
+    return decodeQuotedPrintable(body);
+  }
+  return body;
+};
+
+const decodeHtmlEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/gi, "&");
+
+const htmlToText = (html: string) =>
+  decodeHtmlEntities(
+    html
+      .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  );
+
+const normalizeBody = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const collectContent = (raw: string, content: CollectedContent) => {
+  const { headers, body } = parseEntity(raw);
+  const contentType = headers.get("content-type") ?? "text/plain";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const disposition = (headers.get("content-disposition") ?? "").toLowerCase();
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = getParam(contentType, "boundary");
+    if (boundary) {
+      splitMultipart(body, boundary).forEach((part) =>
+        collectContent(part, content),
+      );
+    }
+    return;
+  }
+
+  const decoded = decodeTransferEncoding(
+    body,
+    headers.get("content-transfer-encoding"),
+  );
+
+  if (mimeType === "image/png" || mimeType === "image/jpeg") {
+    const isInline =
+      !disposition.startsWith("attachment") || headers.has("content-id");
+    if (isInline && decoded) {
+      content.images.push({
+        name:
+          decodeHeader(
+            getParam(headers.get("content-disposition") ?? "", "filename") ||
+              getParam(contentType, "name"),
+          ) || `image-${content.images.length + 1}`,
+        contentType: mimeType,
+        data: btoa(decoded),
+      });
+    }
+    return;
+  }
+
+  if (disposition.startsWith("attachment")) {
+    return;
+  }
+
+  const charset = getParam(contentType, "charset");
+  if (mimeType === "text/plain") {
+    content.plain.push(decodeCharset(decoded, charset));
+  } else if (mimeType === "text/html") {
+    content.html.push(decodeCharset(decoded, charset));
+  }
+};
+
+const parseMessage = (raw: string): ParsedEmail => {
+  const { headers } = parseEntity(raw);
+  const content: CollectedContent = { plain: [], html: [], images: [] };
+  collectContent(raw, content);
+
+  const parsedDate = new Date(headers.get("date") ?? "");
+  const body =
+    content.plain.length > 0
+      ? content.plain.join("\n\n")
+      : content.html.map(htmlToText).join("\n\n");
+  const from = decodeHeader(headers.get("from") ?? "");
+  const subject = decodeHeader(headers.get("subject") ?? "");
+  const date = Number.isNaN(parsedDate.getTime())
+    ? ""
+    : parsedDate.toISOString();
+
+  return {
+    messageId:
+      headers.get("message-id")?.trim() || `${date}|${from}|${subject}`,
+    from,
+    to: decodeHeader(headers.get("to") ?? ""),
+    date,
+    subject,
+    body: normalizeBody(body),
+    images: content.images,
+  };
+};
+
+const splitMbox = (binary: string) =>
+  binary
+    .split(/(?:^|\r?\n\r?\n)From [^\r\n]*\r?\n/)
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => chunk.replace(/^>(>*From )/gm, "$1"));
+
+export const isEmailFile = (file: File) =>
+  /\.(eml|mbox)$/i.test(file.name) ||
+  file.type === "message/rfc822" ||
+  file.type === "application/mbox";
+
+export const parseEmailFile = async (file: File) => {
+  const binary = bytesToBinary(new Uint8Array(await file.arrayBuffer()));
+  const isMbox = /\.mbox$/i.test(file.name) || binary.startsWith("From ");
+  return (isMbox ? splitMbox(binary) : [binary]).map(parseMessage);
+};
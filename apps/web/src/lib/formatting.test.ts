@@ -0,0 +1,44 @@
+﻿import { describe, expect, it } from "vitest";
+import {
+  formatMoney,
+  getFormatSample,
+  isValidLocale,
+  resolveOutputFormat,
+} from "./formatting";
+
+const inLocale = (locale: string) => resolveOutputFormat(locale, "UTC");
+
+// Intl separates some parts with no-break spaces.
+const withPlainSpaces = (text: string) => text.replace(/[\u00a0\u202f]/g, " ");
+
+describe("formatMoney", () => {
+  it.each([
+    ["1234.5", "USD", "en-US", "USD 1,234.50"],
+    ["1,234.5", "EUR", "de-DE", "1.234,50 EUR"],
+    ["1000", "JPY", "en-US", "JPY 1,000"],
+    ["12,50", "EUR", "de-DE", "12,50 EUR"],
+    ["100.5", "JPY", "en-US", "100.5 JPY"],
+    ["12.50", "XYZ", "en-US", "12.50 XYZ"],
+    ["", "USD", "en-US", "USD"],
+  ])("formats %j %s in %s", (amount, currency, locale, expected) => {
+    expect(
+      withPlainSpaces(formatMoney(amount, currency, inLocale(locale))),
+    ).toBe(expected);
+  });
+});
+
+describe("output locales", () => {
+  it("rejects right-to-left locales the PDF cannot shape", () => {
+    expect(isValidLocale("ar-KW")).toBe(false);
+    expect(isValidLocale("he-IL")).toBe(false);
+    expect(isValidLocale("ja-JP")).toBe(true);
+    expect(inLocale("ar-KW").locale).not.toBe("ar-KW");
+  });
+
+  it("samples the script a locale formats dates in", () => {
+    expect(getFormatSample(inLocale("ja-JP"))).toMatch(/[年月日]/);
+    expect(withPlainSpaces(getFormatSample(inLocale("en-US")))).not.toMatch(
+      /[^\x20-\x7e\n]/,
+    );
+  });
+});
@@ -0,0 +1,132 @@
+﻿import { getLocalTimeZone, isValidDate, isValidTimeZone } from "./dateTime";
+import { CURRENCY_MINOR_UNITS, parseAmount } from "./validation";
+
+export type OutputFormat = {
+  locale: string;
+  timeZone: string;
+};
+
+export const COMMON_LOCALES = [
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "en-CA", label: "English (Canada)" },
+  { value: "en-AU", label: "English (Australia)" },
+  { value: "fr-FR", label: "Français (France)" },
+  { value: "fr-CA", label: "Français (Canada)" },
+  { value: "de-DE", label: "Deutsch (Deutschland)" },
+  { value: "es-ES", label: "Español (España)" },
+  { value: "es-MX", label: "Español (México)" },
+  { value: "it-IT", label: "Italiano (Italia)" },
+  { value: "nl-NL", label: "Nederlands (Nederland)" },
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "pl-PL", label: "Polski (Polska)" },
+  { value: "sv-SE", label: "Svenska (Sverige)" },
+  { value: "ja-JP", label: "日本語 (日本)" },
+  { value: "zh-CN", label: "中文 (中国)" },
+];
+
+// The PDF renderer draws text left to right without contextual shaping, so
+// right-to-left scripts would come out reversed and disconnected.
+const RIGHT_TO_LEFT_LANGUAGES = new Set([
+  "ar",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+]);
+
+export const isValidLocale = (locale: string) => {
+  try {
+    return (
+      Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0 &&
+      !RIGHT_TO_LEFT_LANGUAGES.has(locale.split("-")[0].toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+};
+
+export const getLocalLocale = () => {
+  const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+  return locale && isValidLocale(locale) ? locale : "en-US";
+};
+
+export const resolveOutputFormat = (
+  locale: string,
+  timeZone: string,
+): OutputFormat => ({
+  locale: isValidLocale(locale.trim()) ? locale.trim() : getLocalLocale(),
+  timeZone: isValidTimeZone(timeZone.trim())
+    ? timeZone.trim()
+    : getLocalTimeZone(),
+});
+
+// Anything the amount rule would reject is printed exactly as entered, so a
+// warning-level mistake never turns into a confidently wrong figure.
+export const formatMoney = (
+  amount: string,
+  currency: string,
+  format: OutputFormat,
+) => {
+  const code = currency.trim().toUpperCase();
+  const parsed = parseAmount(amount);
+  const digits = CURRENCY_MINOR_UNITS[code];
+  if (
+    !parsed ||
+    !Number.isFinite(parsed.value) ||
+    digits === undefined ||
+    parsed.decimals > digits
+  ) {
+    return `${amount.trim()} ${currency.trim()}`.trim();
+  }
+  return new Intl.NumberFormat(format.locale, {
+    style: "currency",
+    currency: code,
+    currencyDisplay: "code",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(parsed.value);
+};
+
+// Calendar dates carry no zone, so they are formatted as-is in UTC to keep
+// the day from shifting.
+export const formatDate = (date: string, format: OutputFormat) =>
+  isValidDate(date)
+    ? new Intl.DateTimeFormat(format.locale, {
+        dateStyle: "medium",
+        timeZone: "UTC",
+      }).format(new Date(`${date.trim()}T00:00:00Z`))
+    : date.trim();
+
+export const formatDateTime = (
+  instant: Date | number,
+  format: OutputFormat,
+) =>
+  new Intl.DateTimeFormat(format.locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: format.timeZone,
+    timeZoneName: "short",
+  }).format(instant);
+
+export const describeTimeZone = (format: OutputFormat) =>
+  `All times are shown in ${format.timeZone}.`;
+
+// Formatted output can be in a script the case text never uses ("2026年10月
+// 20日" for ja-JP), so font selection has to see these strings too.
+export const getFormatSample = (format: OutputFormat) =>
+  [
+    formatDateTime(Date.UTC(2000, 0, 1, 1), format),
+    formatDateTime(Date.UTC(2000, 0, 1, 13), format),
+    formatDate("2000-01-01", format),
+    formatMoney("1234.50", "USD", format),
+    describeTimeZone(format),
+  ].join("\n");
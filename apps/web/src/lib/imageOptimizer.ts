@@ -0,0 +1,76 @@
+﻿export type ImageOptimizationStep = {
+  maxDimension: number;
+  quality: number;
+};
+
+export const IMAGE_OPTIMIZATION_STEPS: ImageOptimizationStep[] = [
+  { maxDimension: 2400, quality: 0.85 },
+  { maxDimension: 2000, quality: 0.75 },
+  { maxDimension: 1600, quality: 0.65 },
+  { maxDimension: 1280, quality: 0.55 },
+  { maxDimension: 1024, quality: 0.45 },
+];
+
+const MIN_OPTIMIZABLE_BYTES = 200 * 1024;
+
+const toJpegName = (name: string) => {
+  const stem = name.replace(/\.[^.]+$/, "");
+  return `${stem || "image"}.jpg`;
+};
+
+export const recompressImage = async (
+  file: File,
+  step: ImageOptimizationStep,
+): Promise<File> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    step.maxDimension / Math.max(bitmap.width, bitmap.height),
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Canvas 2D context is unavailable");
+  }
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", step.quality),
+  );
+  if (!blob) {
+    throw new Error(`Failed to re-encode ${file.name}`);
+  }
+
+  return new File([blob], toJpegName(file.name), {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+};
+
+export const recompressImages = async (
+  images: Array<{ id: string; file: File }>,
+  step: ImageOptimizationStep,
+) => {
+  const files = new Map<string, File>();
+  for (const image of images) {
+    if (image.file.size < MIN_OPTIMIZABLE_BYTES) {
+      continue;
+    }
+    try {
+      const recompressed = await recompressImage(image.file, step);
+      if (recompressed.size < image.file.size) {
+        files.set(image.id, recompressed);
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }
+  return files;
+};
@@ -0,0 +1,33 @@
+﻿export type ManifestEntry = {
+  path: string;
+  sizeBytes: number;
+  sha256: string;
+};
+
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    data instanceof Uint8Array ? new Uint8Array(data) : data,
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
+
+export const hashFiles = async (
+  files: Array<{ path: string; data: ArrayBuffer | Uint8Array }>,
+): Promise<ManifestEntry[]> => {
+  const entries: ManifestEntry[] = [];
+  for (const file of files) {
+    entries.push({
+      path: file.path,
+      sizeBytes: file.data.byteLength,
+      sha256: await sha256Hex(file.data),
+    });
+  }
+  return entries;
+};
+
+// Same layout as `sha256sum`, so `sha256sum -c manifest.txt` verifies it.
+export const formatManifestText = (entries: ManifestEntry[]) =>
+  `${entries.map((entry) => `${entry.sha256}  ${entry.path}`).join("\n")}\n`;
@@ -0,0 +1,210 @@
+﻿import fontkit from "@pdf-lib/fontkit";
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  degrees,
+  rgb,
+  type Color,
+} from "pdf-lib";
+import dejaVuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import notoSansScUrl from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+
+type LoadedFont = {
+  font: PDFFont;
+  characters: Set<number>;
+};
+
+type TextRun = {
+  text: string;
+  font: PDFFont;
+};
+
+export type PdfTextOptions = {
+  x: number;
+  y: number;
+  size: number;
+  color?: Color;
+  opacity?: number;
+  rotate?: number;
+};
+
+export type PdfTextLayout = {
+  measure: (text: string, size: number) => number;
+  wrap: (text: string, size: number, maxWidth: number) => string[];
+  fit: (text: string, size: number, maxWidth: number) => string;
+  draw: (page: PDFPage, text: string, options: PdfTextOptions) => void;
+};
+
+const REPLACEMENT_CHARACTER = "\uFFFD";
+const TOKEN_BREAK_AFTER = /[/?&=_.:,;#@-]/;
+const HYPHENATABLE_WORD = /^\p{L}+$/u;
+const CJK_CHARACTER =
+  /[\u1100-\u11FF\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF\u{20000}-\u{2FA1F}]/u;
+
+const fontBytesCache = new Map<string, Promise<ArrayBuffer>>();
+
+const fetchFontBytes = (url: string) => {
+  const cached = fontBytesCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const request = fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error(`Failed to load font ${url} (${response.status})`);
+    }
+    return response.arrayBuffer();
+  });
+  request.catch(() => fontBytesCache.delete(url));
+  fontBytesCache.set(url, request);
+  return request;
+};
+
+const embedFont = async (
+  pdfDoc: PDFDocument,
+  url: string,
+): Promise<LoadedFont> => {
+  const font = await pdfDoc.embedFont(await fetchFontBytes(url), {
+    subset: true,
+  });
+  return { font, characters: new Set(font.getCharacterSet()) };
+};
+
+export const createPdfTextLayout = async (
+  pdfDoc: PDFDocument,
+  content: string,
+): Promise<PdfTextLayout> => {
+  pdfDoc.registerFontkit(fontkit);
+
+  const fonts = [await embedFont(pdfDoc, dejaVuSansUrl)];
+  if (CJK_CHARACTER.test(content)) {
+    fonts.push(await embedFont(pdfDoc, notoSansScUrl));
+  }
+  const [primary] = fonts;
+
+  const splitRuns = (text: string): TextRun[] => {
+    const runs: TextRun[] = [];
+    for (const character of Array.from(text.replace(/\s/g, " "))) {
+      const codePoint = character.codePointAt(0) ?? 0;
+      const match = fonts.find((entry) => entry.characters.has(codePoint));
+      const font = match?.font ?? primary.font;
+      const glyph = match ? character : REPLACEMENT_CHARACTER;
+      const last = runs[runs.length - 1];
+      if (last && last.font === font) {
+        last.text += glyph;
+      } else {
+        runs.push({ text: glyph, font });
+      }
+    }
+    return runs;
+  };
+
+  const measure = (text: string, size: number) =>
+    splitRuns(text).reduce(
+      (total, run) => total + run.font.widthOfTextAtSize(run.text, size),
+      0,
+    );
+
+  const breakToken = (token: string, size: number, maxWidth: number) => {
+    const pieces: string[] = [];
+    const hyphenate = HYPHENATABLE_WORD.test(token);
+    let rest = Array.from(token);
+
+    while (rest.length > 1 && measure(rest.join(""), size) > maxWidth) {
+      const suffix = hyphenate ? "-" : "";
+      let fit = 1;
+      while (
+        fit < rest.length - 1 &&
+        measure(rest.slice(0, fit + 1).join("") + suffix, size) <= maxWidth
+      ) {
+        fit += 1;
+      }
+
+      let cut = fit;
+      for (let index = fit - 1; index >= Math.ceil(fit / 2); index -= 1) {
+        if (TOKEN_BREAK_AFTER.test(rest[index])) {
+          cut = index + 1;
+          break;
+        }
+      }
+
+      const piece = rest.slice(0, cut).join("");
+      pieces.push(cut === fit ? piece + suffix : piece);
+      rest = rest.slice(cut);
+    }
+
+    pieces.push(rest.join(""));
+    return pieces;
+  };
+
+  const wrap = (text: string, size: number, maxWidth: number) => {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return [""];
+    }
+
+    const lines: string[] = [];
+    let line = "";
+
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+
+      const pieces = breakToken(word, size, maxWidth);
+      lines.push(...pieces.slice(0, -1));
+      line = pieces[pieces.length - 1];
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+
+    return lines;
+  };
+
+  const fit = (text: string, size: number, maxWidth: number) => {
+    if (measure(text, size) <= maxWidth) {
+      return text;
+    }
+
+    let characters = Array.from(text);
+    while (
+      characters.length > 1 &&
+      measure(`${characters.join("")}…`, size) > maxWidth
+    ) {
+      characters = characters.slice(0, -1);
+    }
+    return `${characters.join("").trimEnd()}…`;
+  };
+
+  const draw = (page: PDFPage, text: string, options: PdfTextOptions) => {
+    const angle = ((options.rotate ?? 0) * Math.PI) / 180;
+    let x = options.x;
+    let y = options.y;
+
+    for (const run of splitRuns(text)) {
+      page.drawText(run.text, {
+        x,
+        y,
+        size: options.size,
+        font: run.font,
+        color: options.color ?? rgb(0, 0, 0),
+        opacity: options.opacity,
+        rotate: options.rotate ? degrees(options.rotate) : undefined,
+      });
+      const width = run.font.widthOfTextAtSize(run.text, options.size);
+      x += width * Math.cos(angle);
+      y += width * Math.sin(angle);
+    }
+  };
+
+  return { measure, wrap, fit, draw };
+};
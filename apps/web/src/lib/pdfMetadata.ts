@@ -0,0 +1,234 @@
+﻿import { PDFDocument, PDFHexString, PDFName, PDFString } from "pdf-lib";
+
+export type PdfDocumentMetadata = {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  creator: string;
+  producer: string;
+  createdAt: Date;
+};
+
+export const applyDocumentMetadata = (
+  pdfDoc: PDFDocument,
+  metadata: PdfDocumentMetadata,
+) => {
+  pdfDoc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  pdfDoc.setAuthor(metadata.author);
+  pdfDoc.setSubject(metadata.subject);
+  pdfDoc.setKeywords(metadata.keywords);
+  pdfDoc.setCreator(metadata.creator);
+  pdfDoc.setProducer(metadata.producer);
+  pdfDoc.setCreationDate(metadata.createdAt);
+  pdfDoc.setModificationDate(metadata.createdAt);
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatXmpDate = (date: Date) =>
+  date.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+// No pdfaid identification: merged exhibit PDFs, transparent images and link
+// annotations are not checked, so the file must not claim PDF/A conformance.
+const buildXmpPacket = (metadata: PdfDocumentMetadata) => {
+  const createdAt = formatXmpDate(metadata.createdAt);
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.subject)}</rdf:li></rdf:Alt></dc:description>
+      <pdf:Keywords>${escapeXml(metadata.keywords.join(" "))}</pdf:Keywords>
+      <pdf:Producer>${escapeXml(metadata.producer)}</pdf:Producer>
+      <xmp:CreatorTool>${escapeXml(metadata.creator)}</xmp:CreatorTool>
+      <xmp:CreateDate>${createdAt}</xmp:CreateDate>
+      <xmp:ModifyDate>${createdAt}</xmp:ModifyDate>
+      <xmp:MetadataDate>${createdAt}</xmp:MetadataDate>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let index = 0; index < text.length; index += 1) {
+    view.setUint8(offset + index, text.charCodeAt(index));
+  }
+};
+
+const writeS15Fixed16 = (view: DataView, offset: number, value: number) => {
+  view.setInt32(offset, Math.round(value * 65536));
+};
+
+const toSrgbLinear = (value: number) =>
+  value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+
+// Minimal ICC v2 display profile for sRGB (D50-adapted primaries and a
+// sampled IEC 61966-2-1 tone curve), enough to act as a PDF/A output intent.
+const buildSrgbIccProfile = () => {
+  const description = "sRGB IEC61966-2.1";
+  const copyright = "No copyright, use freely";
+  const curveEntries = 256;
+
+  const descSize = 12 + description.length + 1 + 8 + 3 + 67;
+  const textSize = 8 + copyright.length + 1;
+  const xyzSize = 20;
+  const curveSize = 12 + curveEntries * 2;
+  const align = (value: number) => Math.ceil(value / 4) * 4;
+
+  const tags: Array<{ signature: string; size: number; shared?: string }> = [
+    { signature: "desc", size: descSize },
+    { signature: "cprt", size: textSize },
+    { signature: "wtpt", size: xyzSize },
+    { signature: "rXYZ", size: xyzSize },
+    { signature: "gXYZ", size: xyzSize },
+    { signature: "bXYZ", size: xyzSize },
+    { signature: "rTRC", size: curveSize },
+    { signature: "gTRC", size: curveSize, shared: "rTRC" },
+    { signature: "bTRC", size: curveSize, shared: "rTRC" },
+  ];
+
+  const offsets = new Map<string, number>();
+  let cursor = 128 + 4 + tags.length * 12;
+  tags.forEach((tag) => {
+    if (tag.shared) {
+      offsets.set(tag.signature, offsets.get(tag.shared) ?? cursor);
+      return;
+    }
+    offsets.set(tag.signature, cursor);
+    cursor = align(cursor + tag.size);
+  });
+
+  const bytes = new Uint8Array(cursor);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, cursor);
+  view.setUint32(8, 0x02100000);
+  writeAscii(view, 12, "mntr");
+  writeAscii(view, 16, "RGB ");
+  writeAscii(view, 20, "XYZ ");
+  view.setUint16(24, 2024);
+  view.setUint16(26, 1);
+  view.setUint16(28, 1);
+  writeAscii(view, 36, "acsp");
+  writeS15Fixed16(view, 68, 0.9642);
+  writeS15Fixed16(view, 72, 1);
+  writeS15Fixed16(view, 76, 0.8249);
+
+  view.setUint32(128, tags.length);
+  tags.forEach((tag, index) => {
+    const entry = 132 + index * 12;
+    writeAscii(view, entry, tag.signature);
+    view.setUint32(entry + 4, offsets.get(tag.signature) ?? 0);
+    view.setUint32(entry + 8, tag.size);
+  });
+
+  const descOffset = offsets.get("desc") ?? 0;
+  writeAscii(view, descOffset, "desc");
+  view.setUint32(descOffset + 8, description.length + 1);
+  writeAscii(view, descOffset + 12, description);
+
+  const cprtOffset = offsets.get("cprt") ?? 0;
+  writeAscii(view, cprtOffset, "text");
+  writeAscii(view, cprtOffset + 8, copyright);
+
+  const writeXyz = (signature: string, xyz: [number, number, number]) => {
+    const offset = offsets.get(signature) ?? 0;
+    writeAscii(view, offset, "XYZ ");
+    xyz.forEach((value, index) =>
+      writeS15Fixed16(view, offset + 8 + index * 4, value),
+    );
+  };
+  writeXyz("wtpt", [0.9642, 1, 0.8249]);
+  writeXyz("rXYZ", [0.4361, 0.2225, 0.0139]);
+  writeXyz("gXYZ", [0.3851, 0.7169, 0.0971]);
+  writeXyz("bXYZ", [0.1431, 0.0606, 0.7141]);
+
+  const curveOffset = offsets.get("rTRC") ?? 0;
+  writeAscii(view, curveOffset, "curv");
+  view.setUint32(curveOffset + 8, curveEntries);
+  for (let index = 0; index < curveEntries; index += 1) {
+    const linear = toSrgbLinear(index / (curveEntries - 1));
+    view.setUint16(curveOffset + 12 + index * 2, Math.round(linear * 65535));
+  }
+
+  return bytes;
+};
+
+const createDocumentId = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
+// Draws the image over white and re-encodes it losslessly, so every pixel
+// is opaque and pdf-lib embeds it without a soft mask, which archival output
+// must not contain.
+export const flattenImage = async (image: Blob): Promise<ArrayBuffer> => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Canvas 2D context is unavailable");
+  }
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  );
+  if (!blob) {
+    throw new Error("Failed to flatten image");
+  }
+  return blob.arrayBuffer();
+};
+
+export const applyArchivalConformance = (
+  pdfDoc: PDFDocument,
+  metadata: PdfDocumentMetadata,
+) => {
+  const { context, catalog } = pdfDoc;
+
+  const xmp = new TextEncoder().encode(buildXmpPacket(metadata));
+  const metadataRef = context.register(
+    context.stream(xmp, { Type: "Metadata", Subtype: "XML" }),
+  );
+  catalog.set(PDFName.of("Metadata"), metadataRef);
+
+  const profileRef = context.register(
+    context.flateStream(buildSrgbIccProfile(), { N: 3 }),
+  );
+  const outputIntent = context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFString.of("sRGB IEC61966-2.1"),
+    Info: PDFString.of("sRGB IEC61966-2.1"),
+    DestOutputProfile: profileRef,
+  });
+  catalog.set(
+    PDFName.of("OutputIntents"),
+    context.obj([context.register(outputIntent)]),
+  );
+
+  const documentId = PDFHexString.of(createDocumentId());
+  context.trailerInfo.ID = context.obj([documentId, documentId]);
+};
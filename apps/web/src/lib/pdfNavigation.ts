@@ -0,0 +1,96 @@
+﻿import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRef,
+} from "pdf-lib";
+
+export type PdfBookmark = {
+  title: string;
+  page: PDFPage;
+  top: number;
+  children?: PdfBookmark[];
+};
+
+const createDestination = (pdfDoc: PDFDocument, page: PDFPage, top: number) =>
+  pdfDoc.context.obj([page.ref, "XYZ", null, top, null]);
+
+export const addInternalLink = (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  rect: { x: number; y: number; width: number; height: number },
+  target: { page: PDFPage; top: number },
+) => {
+  const annotation = pdfDoc.context.obj({
+    Type: "Annot",
+    Subtype: "Link",
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    Border: [0, 0, 0],
+    Dest: createDestination(pdfDoc, target.page, target.top),
+  });
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+};
+
+const countBookmarks = (bookmarks: PdfBookmark[]): number =>
+  bookmarks.reduce(
+    (total, bookmark) => total + 1 + countBookmarks(bookmark.children ?? []),
+    0,
+  );
+
+const assignBookmarks = (
+  pdfDoc: PDFDocument,
+  bookmarks: PdfBookmark[],
+  parentRef: PDFRef,
+) => {
+  const refs = bookmarks.map(() => pdfDoc.context.nextRef());
+
+  bookmarks.forEach((bookmark, index) => {
+    const item = pdfDoc.context.obj({
+      Title: PDFHexString.fromText(bookmark.title),
+      Parent: parentRef,
+      Dest: createDestination(pdfDoc, bookmark.page, bookmark.top),
+    });
+
+    if (index > 0) {
+      item.set(PDFName.of("Prev"), refs[index - 1]);
+    }
+    if (index < refs.length - 1) {
+      item.set(PDFName.of("Next"), refs[index + 1]);
+    }
+
+    const children = bookmark.children ?? [];
+    if (children.length > 0) {
+      const childRefs = assignBookmarks(pdfDoc, children, refs[index]);
+      item.set(PDFName.of("First"), childRefs[0]);
+      item.set(PDFName.of("Last"), childRefs[childRefs.length - 1]);
+      item.set(PDFName.of("Count"), PDFNumber.of(countBookmarks(children)));
+    }
+
+    pdfDoc.context.assign(refs[index], item);
+  });
+
+  return refs;
+};
+
+export const addOutline = (pdfDoc: PDFDocument, bookmarks: PdfBookmark[]) => {
+  if (bookmarks.length === 0) {
+    return;
+  }
+
+  const outlinesRef = pdfDoc.context.nextRef();
+  const refs = assignBookmarks(pdfDoc, bookmarks, outlinesRef);
+
+  pdfDoc.context.assign(
+    outlinesRef,
+    pdfDoc.context.obj({
+      Type: "Outlines",
+      First: refs[0],
+      Last: refs[refs.length - 1],
+      Count: countBookmarks(bookmarks),
+    }),
+  );
+  pdfDoc.catalog.set(PDFName.of("Outlines"), outlinesRef);
+  pdfDoc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
@@ -0,0 +1,155 @@
+﻿import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+
+export type PdfSection = {
+  id: string;
+  title: string;
+  startPage: number;
+};
+
+export type PdfPart = {
+  bytes: Uint8Array;
+  pageCount: number;
+  sections: PdfSection[];
+  oversized: boolean;
+};
+
+export type PdfPartInfo = {
+  index: number;
+  count: number;
+  sections: PdfSection[];
+};
+
+type SectionRange = {
+  section: PdfSection;
+  pageIndices: number[];
+};
+
+const isInternalLink = (annot: unknown) => {
+  if (!(annot instanceof PDFDict)) {
+    return false;
+  }
+  if (annot.has(PDFName.of("Dest"))) {
+    return true;
+  }
+  const action = annot.lookup(PDFName.of("A"));
+  return (
+    action instanceof PDFDict &&
+    action.get(PDFName.of("S")) === PDFName.of("GoTo")
+  );
+};
+
+// Links into other parts would drag their pages along with copyPages.
+const removeInternalLinks = (pdfDoc: PDFDocument) => {
+  pdfDoc.getPages().forEach((page) => {
+    const annots = page.node.Annots();
+    if (!annots) {
+      return;
+    }
+    const kept = annots
+      .asArray()
+      .filter((entry) => !isInternalLink(pdfDoc.context.lookup(entry)));
+    page.node.set(PDFName.of("Annots"), pdfDoc.context.obj(kept));
+  });
+};
+
+export const splitPdfIntoParts = async (
+  bytes: Uint8Array,
+  sections: PdfSection[],
+  options: {
+    maxBytes: number;
+    useObjectStreams: boolean;
+    decorate: (partDoc: PDFDocument, part: PdfPartInfo) => Promise<void>;
+  },
+): Promise<PdfPart[]> => {
+  const source = await PDFDocument.load(bytes);
+  removeInternalLinks(source);
+  const pageCount = source.getPageCount();
+
+  const ranges: SectionRange[] = sections.map((section, index) => {
+    const end = sections[index + 1]?.startPage ?? pageCount;
+    return {
+      section,
+      pageIndices: Array.from(
+        { length: Math.max(0, end - section.startPage) },
+        (_, offset) => section.startPage + offset,
+      ),
+    };
+  });
+
+  const save = (pdfDoc: PDFDocument) =>
+    pdfDoc.save({ useObjectStreams: options.useObjectStreams });
+
+  const copySections = async (group: SectionRange[]) => {
+    const partDoc = await PDFDocument.create();
+    const pages = await partDoc.copyPages(
+      source,
+      group.flatMap((range) => range.pageIndices),
+    );
+    pages.forEach((page) => partDoc.addPage(page));
+    return partDoc;
+  };
+
+  const measure = async (start: number, end: number) =>
+    (await save(await copySections(ranges.slice(start, end)))).length;
+
+  // Trial groups are saved without their cover page. Reserve room for one
+  // that lists every section, which is at least as large as any real cover.
+  const coverDoc = await PDFDocument.create();
+  const emptyBytes = (await save(coverDoc)).length;
+  await options.decorate(coverDoc, {
+    index: 0,
+    count: ranges.length,
+    sections,
+  });
+  const budget =
+    options.maxBytes - ((await save(coverDoc)).length - emptyBytes);
+
+  // Gallop, then binary search, for the longest run of sections that fits.
+  // A part always takes at least one section, even if it is over budget.
+  const groups: SectionRange[][] = [];
+  let start = 0;
+  while (start < ranges.length) {
+    let fit = start + 1;
+    let over = ranges.length + 1;
+    let length = 1;
+    while (fit < ranges.length) {
+      length *= 2;
+      const end = Math.min(start + length, ranges.length);
+      if ((await measure(start, end)) <= budget) {
+        fit = end;
+      } else {
+        over = end;
+        break;
+      }
+    }
+    while (over - fit > 1) {
+      const middle = Math.floor((fit + over) / 2);
+      if ((await measure(start, middle)) <= budget) {
+        fit = middle;
+      } else {
+        over = middle;
+      }
+    }
+    groups.push(ranges.slice(start, fit));
+    start = fit;
+  }
+
+  const parts: PdfPart[] = [];
+  for (const [index, group] of groups.entries()) {
+    const partDoc = await copySections(group);
+    const partSections = group.map((range) => range.section);
+    await options.decorate(partDoc, {
+      index,
+      count: groups.length,
+      sections: partSections,
+    });
+    const bytes = await save(partDoc);
+    parts.push({
+      bytes,
+      pageCount: partDoc.getPageCount(),
+      sections: partSections,
+      oversized: bytes.length > options.maxBytes,
+    });
+  }
+  return parts;
+};
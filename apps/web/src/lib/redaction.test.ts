@@ -0,0 +1,97 @@
+﻿import { describe, expect, it } from "vitest";
+import {
+  createTextRedactor,
+  maskEmail,
+  maskIpAddress,
+  maskSensitiveNumbers,
+} from "./redaction";
+
+describe("maskSensitiveNumbers", () => {
+  it.each([
+    ["Card 4111 1111 1111 1111 on file", "Card **** **** **** 1111 on file"],
+    ["4111-1111-1111-1111", "****-****-****-1111"],
+    ["Amex 378282246310005", "Amex ***********0005"],
+    ["Order 4111 1111 1111 1112", "Order 4111 1111 1111 1112"],
+    ["Ref 1234567890", "Ref 1234567890"],
+    ["SSN 123-45-6789", "SSN ***-**-6789"],
+    ["SSN 123 45 6789", "SSN *** ** 6789"],
+    ["Phone 123-456-7890", "Phone 123-456-7890"],
+  ])("masks %j", (text, expected) => {
+    expect(maskSensitiveNumbers(text)).toBe(expected);
+  });
+});
+
+describe("maskEmail", () => {
+  it.each([
+    ["jane.doe@example.com", "j***@example.com"],
+    ["  a@b.co ", "a***@b.co"],
+    ["not-an-email", "***"],
+    ["", ""],
+  ])("masks %j", (email, expected) => {
+    expect(maskEmail(email)).toBe(expected);
+  });
+});
+
+describe("maskIpAddress", () => {
+  it.each([
+    ["203.0.113.42", "203.0.113.xxx"],
+    ["2001:db8:85a3::8a2e:370:7334", "2001:db8:85a3:0:xxxx:xxxx:xxxx:xxxx"],
+    ["2001:db8::", "2001:db8:0:0:xxxx:xxxx:xxxx:xxxx"],
+    [
+      "2001:0DB8:0000:0001:0000:0000:0000:0001",
+      "2001:db8:0:1:xxxx:xxxx:xxxx:xxxx",
+    ],
+    ["fe80::1%eth0", "fe80:0:0:0:xxxx:xxxx:xxxx:xxxx"],
+    ["::ffff:192.0.2.1", "0:0:0:0:xxxx:xxxx:xxxx:xxxx"],
+    ["not an ip", "not an ip"],
+  ])("masks %s", (address, expected) => {
+    expect(maskIpAddress(address)).toBe(expected);
+  });
+});
+
+describe("createTextRedactor", () => {
+  const redact = (text: string, email: string, ipAddress: string) =>
+    createTextRedactor(
+      { enabled: true, maskIpAddress: true },
+      { email, ipAddress },
+    )(text);
+
+  it.each([
+    [
+      "src 10.0.0.15, gw 110.0.0.1, client 10.0.0.1.",
+      "10.0.0.1",
+      "src 10.0.0.15, gw 110.0.0.1, client 10.0.0.xxx.",
+    ],
+    [
+      "Login from 10.0.0.1:443 and 10.0.0.1/32",
+      "10.0.0.1",
+      "Login from 10.0.0.xxx:443 and 10.0.0.xxx/32",
+    ],
+    [
+      "a 2001:db8::1, b 2001:db8::12, c 2001:db8::1:5",
+      "2001:db8::1",
+      "a 2001:db8:0:0:xxxx:xxxx:xxxx:xxxx, b 2001:db8::12, c 2001:db8::1:5",
+    ],
+    ["IP 2001:DB8::1.", "2001:db8::1", "IP 2001:db8:0:0:xxxx:xxxx:xxxx:xxxx."],
+  ])("masks only the whole IP in %j", (text, ipAddress, expected) => {
+    expect(redact(text, "", ipAddress)).toBe(expected);
+  });
+
+  it.each([
+    ["Contact jo@ex.com.", "Contact j***@ex.com."],
+    ["JO@EX.COM wrote", "j***@ex.com wrote"],
+    ["mojo@ex.com wrote", "mojo@ex.com wrote"],
+    ["jo@ex.com.au wrote", "jo@ex.com.au wrote"],
+    ["<jo@ex.com>", "<j***@ex.com>"],
+  ])("masks only the whole email in %j", (text, expected) => {
+    expect(redact(text, "jo@ex.com", "")).toBe(expected);
+  });
+
+  it("leaves the IP alone unless asked to mask it", () => {
+    const redactText = createTextRedactor(
+      { enabled: true, maskIpAddress: false },
+      { email: "", ipAddress: "10.0.0.1" },
+    );
+    expect(redactText("from 10.0.0.1")).toBe("from 10.0.0.1");
+  });
+});
@@ -0,0 +1,168 @@
+﻿export type RedactionOptions = {
+  enabled: boolean;
+  maskIpAddress: boolean;
+};
+
+const SSN_PATTERN = /\b(\d{3})([- ])(\d{2})\2(\d{4})\b/g;
+const CARD_CANDIDATE_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// What may not sit directly before and after a known value for it to count
+// as the whole token. A trailing "." or ":" is still allowed when it only
+// ends the sentence, so "10.0.0.1." matches but "10.0.0.15" does not.
+const EMAIL_BOUNDARIES = ["[\\w.+-]", "[\\w-]|\\.\\w"] as const;
+const IPV4_BOUNDARIES = ["[\\d.]", "\\d|\\.\\d"] as const;
+const IPV6_BOUNDARIES = ["[0-9a-f:.]", "[0-9a-f]|[:.][0-9a-f:]"] as const;
+
+const matchWholeToken = (
+  value: string,
+  [before, after]: readonly [string, string],
+) => new RegExp(`(?<!${before})${escapeRegExp(value)}(?!${after})`, "gi");
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const maskCardNumber = (match: string) => {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19 || !passesLuhn(digits)) {
+    return match;
+  }
+
+  let remainingVisible = 4;
+  return Array.from(match)
+    .reverse()
+    .map((character) => {
+      if (!/\d/.test(character)) {
+        return character;
+      }
+      if (remainingVisible > 0) {
+        remainingVisible -= 1;
+        return character;
+      }
+      return "*";
+    })
+    .reverse()
+    .join("");
+};
+
+export const maskEmail = (email: string) => {
+  const trimmed = email.trim();
+  const at = trimmed.lastIndexOf("@");
+  if (!trimmed) {
+    return "";
+  }
+  if (at < 1) {
+    return "***";
+  }
+  return `${trimmed.charAt(0)}***${trimmed.slice(at)}`;
+};
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// Returns the eight 16-bit groups of an IPv6 address, or null when it is not
+// one. An embedded IPv4 tail (::ffff:192.0.2.1) counts as the last two.
+const expandIpv6 = (address: string) => {
+  const halves = address.toLowerCase().split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const toGroups = (half: string) => {
+    if (!half) {
+      return [];
+    }
+    const parts = half.split(":");
+    const last = parts[parts.length - 1];
+    if (IPV4_PATTERN.test(last)) {
+      const octets = last.split(".").map(Number);
+      parts.splice(
+        -1,
+        1,
+        ((octets[0] << 8) | octets[1]).toString(16),
+        ((octets[2] << 8) | octets[3]).toString(16),
+      );
+    }
+    return parts;
+  };
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  return groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))
+    ? groups.map((group) => group.replace(/^0+(?=.)/, ""))
+    : null;
+};
+
+// IPv4 keeps the first three octets. IPv6 keeps the /64 network prefix and
+// masks the interface ID, which is the part that identifies the device.
+export const maskIpAddress = (ipAddress: string) => {
+  const trimmed = ipAddress.trim();
+  if (IPV4_PATTERN.test(trimmed)) {
+    return trimmed.replace(/\.\d{1,3}$/, ".xxx");
+  }
+  const groups = trimmed.includes(":")
+    ? expandIpv6(trimmed.replace(/%.*$/, ""))
+    : null;
+  if (groups) {
+    return [...groups.slice(0, 4), "xxxx", "xxxx", "xxxx", "xxxx"].join(":");
+  }
+  return trimmed;
+};
+
+export const maskSensitiveNumbers = (text: string) =>
+  text
+    .replace(
+      SSN_PATTERN,
+      (_match, _area, separator: string, _group, serial: string) =>
+        `***${separator}**${separator}${serial}`,
+    )
+    .replace(CARD_CANDIDATE_PATTERN, maskCardNumber);
+
+export const createTextRedactor = (
+  options: RedactionOptions,
+  known: { email: string; ipAddress: string },
+) => {
+  const replacements: Array<[RegExp, string]> = [];
+  const email = known.email.trim();
+  const ipAddress = known.ipAddress.trim();
+
+  if (email) {
+    replacements.push([
+      matchWholeToken(email, EMAIL_BOUNDARIES),
+      maskEmail(email),
+    ]);
+  }
+  if (ipAddress && options.maskIpAddress) {
+    replacements.push([
+      matchWholeToken(
+        ipAddress,
+        ipAddress.includes(":") ? IPV6_BOUNDARIES : IPV4_BOUNDARIES,
+      ),
+      maskIpAddress(ipAddress),
+    ]);
+  }
+
+  return (text: string) =>
+    maskSensitiveNumbers(
+      replacements.reduce(
+        (current, [pattern, value]) => current.replace(pattern, value),
+        text,
+      ),
+    );
+};
@@ -0,0 +1,96 @@
+﻿import { describe, expect, it } from "vitest";
+import {
+  isValidIpAddress,
+  parseAmount,
+  validateAmount,
+  validateTrackingNumber,
+} from "./validation";
+
+describe("validateTrackingNumber", () => {
+  it.each([
+    ["1Z999AA10123456784", "UPS"],
+    ["1Z 999 AA1 01 2345 6784", "ups"],
+    ["RR123456785GB", "USPS"],
+    ["9400111899223197428497", "USPS"],
+    ["94001000000000000006", "United States Postal Service"],
+    ["123456789012", "FedEx"],
+    ["123456789012343", "FedEx Ground"],
+    ["1234567891", "DHL Express"],
+    ["JJD0123456789", "DHL"],
+    ["1Z999AA10123456784", ""],
+  ])("accepts %s for %s", (trackingNumber, carrier) => {
+    expect(validateTrackingNumber(trackingNumber, carrier)).toBeNull();
+  });
+
+  it.each([
+    ["1Z999AA10123456785", "UPS"],
+    ["RR123456784GB", "USPS"],
+    ["9400111899223197428490", "USPS"],
+    ["123456789013", "FedEx"],
+    ["1234567890", "DHL"],
+  ])("rejects the check digit of %s for %s", (trackingNumber, carrier) => {
+    expect(validateTrackingNumber(trackingNumber, carrier)).toMatch(
+      /fails its check digit/,
+    );
+  });
+
+  it("names the carrier a number actually belongs to", () => {
+    expect(validateTrackingNumber("1Z999AA10123456784", "FedEx")).toBe(
+      "This looks like a UPS tracking number, not FedEx.",
+    );
+  });
+
+  it("flags a failed check digit when no carrier is given", () => {
+    expect(validateTrackingNumber("1Z999AA10123456785", "")).toMatch(
+      /carrier check digit/,
+    );
+  });
+});
+
+describe("parseAmount", () => {
+  it.each([
+    ["120", { value: 120, decimals: 0 }],
+    ["120.5", { value: 120.5, decimals: 1 }],
+    ["1,234.50", { value: 1234.5, decimals: 2 }],
+    [" 0.99 ", { value: 0.99, decimals: 2 }],
+  ])("parses %j", (amount, expected) => {
+    expect(parseAmount(amount)).toEqual(expected);
+  });
+
+  it.each(["12,50", "1,23", "1.234,50", "12.", "-5", "abc", ""])(
+    "rejects %j",
+    (amount) => {
+      expect(parseAmount(amount)).toBeNull();
+    },
+  );
+});
+
+describe("validateAmount", () => {
+  it.each([
+    ["12,50", "EUR", "Enter the amount as a number, for example 120.00."],
+    ["0.00", "USD", "The amount must be greater than zero."],
+    ["100.5", "JPY", "JPY amounts have no decimal places."],
+    ["1.2345", "KWD", "KWD amounts have at most 3 decimal places."],
+    ["1.234", "KWD", null],
+    ["", "USD", null],
+  ])("validates %j %s", (amount, currency, expected) => {
+    expect(validateAmount(amount, currency)).toBe(expected);
+  });
+});
+
+describe("isValidIpAddress", () => {
+  it.each([
+    ["192.0.2.1", true],
+    ["255.255.255.255", true],
+    ["256.0.0.1", false],
+    ["01.2.3.4", false],
+    ["2001:db8::1", true],
+    ["::", true],
+    ["::ffff:192.0.2.1", true],
+    ["fe80::1%eth0", true],
+    ["2001:db8::1::2", false],
+    ["1:2:3:4:5:6:7:8:9", false],
+  ])("%s is %s", (address, expected) => {
+    expect(isValidIpAddress(address)).toBe(expected);
+  });
+});
@@ -0,0 +1,320 @@
+﻿export const CURRENCY_MINOR_UNITS: Record<string, number> = {
+  AED: 2,
+  ARS: 2,
+  AUD: 2,
+  BGN: 2,
+  BHD: 3,
+  BRL: 2,
+  CAD: 2,
+  CHF: 2,
+  CLP: 0,
+  CNY: 2,
+  COP: 2,
+  CZK: 2,
+  DKK: 2,
+  EGP: 2,
+  EUR: 2,
+  GBP: 2,
+  HKD: 2,
+  HUF: 2,
+  IDR: 2,
+  ILS: 2,
+  INR: 2,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KES: 2,
+  KRW: 0,
+  KWD: 3,
+  MXN: 2,
+  MYR: 2,
+  NGN: 2,
+  NOK: 2,
+  NZD: 2,
+  OMR: 3,
+  PEN: 2,
+  PHP: 2,
+  PKR: 2,
+  PLN: 2,
+  PYG: 0,
+  QAR: 2,
+  RON: 2,
+  SAR: 2,
+  SEK: 2,
+  SGD: 2,
+  THB: 2,
+  TND: 3,
+  TRY: 2,
+  TWD: 2,
+  UAH: 2,
+  UGX: 0,
+  USD: 2,
+  UYU: 2,
+  VND: 0,
+  XAF: 0,
+  XOF: 0,
+  ZAR: 2,
+};
+
+export const validateCurrency = (currency: string) => {
+  const code = currency.trim().toUpperCase();
+  if (!code) {
+    return null;
+  }
+  if (!/^[A-Z]{3}$/.test(code)) {
+    return "Use a three-letter ISO 4217 code such as USD.";
+  }
+  return code in CURRENCY_MINOR_UNITS
+    ? null
+    : `${code} is not a supported ISO 4217 currency code.`;
+};
+
+// Accepts "1234.5" and "1,234.50"; a comma is only ever a thousands
+// separator, so "12,50" does not parse.
+export const parseAmount = (amount: string) => {
+  const match = /^(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?$/.exec(amount.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    value: Number(`${match[1].replace(/,/g, "")}.${match[2] ?? "0"}`),
+    decimals: match[2]?.length ?? 0,
+  };
+};
+
+export const validateAmount = (amount: string, currency: string) => {
+  if (!amount.trim()) {
+    return null;
+  }
+  const parsed = parseAmount(amount);
+  if (!parsed) {
+    return "Enter the amount as a number, for example 120.00.";
+  }
+  if (parsed.value <= 0) {
+    return "The amount must be greater than zero.";
+  }
+  const code = currency.trim().toUpperCase();
+  const minorUnits = CURRENCY_MINOR_UNITS[code];
+  const decimals = parsed.decimals;
+  if (minorUnits !== undefined && decimals > minorUnits) {
+    return minorUnits === 0
+      ? `${code} amounts have no decimal places.`
+      : `${code} amounts have at most ${minorUnits} decimal places.`;
+  }
+  return null;
+};
+
+const isValidIpv4 = (value: string) => {
+  const parts = value.split(".");
+  return (
+    parts.length === 4 &&
+    parts.every(
+      (part) =>
+        /^(0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255,
+    )
+  );
+};
+
+const isValidIpv6 = (value: string) => {
+  let address = value.replace(/%[\w.-]+$/, "");
+  const lastColon = address.lastIndexOf(":");
+  if (address.includes(".")) {
+    if (!isValidIpv4(address.slice(lastColon + 1))) {
+      return false;
+    }
+    address = `${address.slice(0, lastColon + 1)}0:0`;
+  }
+  const halves = address.split("::");
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = halves.map((half) => (half ? half.split(":") : []));
+  const count = groups.reduce((total, half) => total + half.length, 0);
+  return (
+    groups.every((half) =>
+      half.every((group) => /^[0-9a-f]{1,4}$/i.test(group)),
+    ) &&
+    (halves.length === 2 ? count < 8 : count === 8)
+  );
+};
+
+export const isValidIpAddress = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed.includes(":") ? isValidIpv6(trimmed) : isValidIpv4(trimmed);
+};
+
+export const isValidEmail = (value: string) =>
+  /^[^\s@]+@[^\s@.]+(?:\.[^\s@.]+)+$/.test(value.trim()) &&
+  !value.includes("..");
+
+export const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return (
+      (url.protocol === "https:" || url.protocol === "http:") &&
+      url.hostname.includes(".")
+    );
+  } catch {
+    return false;
+  }
+};
+
+export type TrackingCarrier = "ups" | "usps" | "fedex" | "dhl";
+
+const CARRIER_LABELS: Record<TrackingCarrier, string> = {
+  ups: "UPS",
+  usps: "USPS",
+  fedex: "FedEx",
+  dhl: "DHL",
+};
+
+export const detectCarrier = (carrier: string): TrackingCarrier | null => {
+  const normalized = carrier.toLowerCase();
+  if (/\busps\b|postal service/.test(normalized)) {
+    return "usps";
+  }
+  if (/\bups\b|united parcel/.test(normalized)) {
+    return "ups";
+  }
+  if (/fed\s*ex/.test(normalized)) {
+    return "fedex";
+  }
+  if (/\bdhl\b/.test(normalized)) {
+    return "dhl";
+  }
+  return null;
+};
+
+type TrackingCheck = "valid" | "check_digit" | "no_match";
+
+const digitAt = (value: string, index: number) => Number(value[index]);
+
+// Weights 3 and 1 alternate from the rightmost payload digit (GS1 mod 10).
+const mod10CheckDigit = (payload: string) => {
+  let sum = 0;
+  for (let index = 0; index < payload.length; index += 1) {
+    const digit = digitAt(payload, payload.length - 1 - index);
+    sum += index % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const checkWith = (value: string, expected: number): TrackingCheck =>
+  digitAt(value, value.length - 1) === expected ? "valid" : "check_digit";
+
+const checkUps = (value: string): TrackingCheck => {
+  if (/^[TH]\d{10}$/.test(value)) {
+    return "valid";
+  }
+  if (!/^1Z[0-9A-Z]{15}\d$/.test(value)) {
+    return "no_match";
+  }
+  let sum = 0;
+  Array.from(value.slice(2, 17)).forEach((character, index) => {
+    const digit = /\d/.test(character)
+      ? Number(character)
+      : (character.charCodeAt(0) - 63) % 10;
+    sum += index % 2 === 1 ? digit * 2 : digit;
+  });
+  return checkWith(value, (10 - (sum % 10)) % 10);
+};
+
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+const checkUsps = (value: string): TrackingCheck => {
+  if (/^[A-Z]{2}\d{9}[A-Z]{2}$/.test(value)) {
+    const sum = S10_WEIGHTS.reduce(
+      (total, weight, index) => total + weight * digitAt(value, index + 2),
+      0,
+    );
+    const remainder = 11 - (sum % 11);
+    const expected = remainder === 10 ? 0 : remainder === 11 ? 5 : remainder;
+    return digitAt(value, 10) === expected ? "valid" : "check_digit";
+  }
+  const barcode =
+    /^420\d{5}(\d{22})$/.exec(value)?.[1] ??
+    /^420\d{9}(\d{22})$/.exec(value)?.[1] ??
+    value;
+  if (!/^(\d{20}|\d{22})$/.test(barcode)) {
+    return "no_match";
+  }
+  return checkWith(barcode, mod10CheckDigit(barcode.slice(0, -1)));
+};
+
+const FEDEX_EXPRESS_WEIGHTS = [3, 1, 7];
+
+const checkFedex = (value: string): TrackingCheck => {
+  if (/^\d{12}$/.test(value)) {
+    const sum = Array.from(value.slice(0, 11)).reduce(
+      (total, digit, index) =>
+        total + Number(digit) * FEDEX_EXPRESS_WEIGHTS[index % 3],
+      0,
+    );
+    return checkWith(value, (sum % 11) % 10);
+  }
+  const ground = /^96\d{5}(\d{15})$/.exec(value)?.[1] ?? value;
+  if (/^\d{15}$/.test(ground) || /^\d{20}$/.test(ground)) {
+    return checkWith(ground, mod10CheckDigit(ground.slice(0, -1)));
+  }
+  return "no_match";
+};
+
+const checkDhl = (value: string): TrackingCheck => {
+  if (/^\d{10}$/.test(value)) {
+    return checkWith(value, Number(value.slice(0, 9)) % 7);
+  }
+  return /^(JJD\d{10,}|JVGL\d{8,}|GM\d{16,22}|[A-Z]{3}\d{7})$/.test(value)
+    ? "valid"
+    : "no_match";
+};
+
+const TRACKING_CHECKS: Record<
+  TrackingCarrier,
+  (value: string) => TrackingCheck
+> = {
+  ups: checkUps,
+  usps: checkUsps,
+  fedex: checkFedex,
+  dhl: checkDhl,
+};
+
+export const validateTrackingNumber = (
+  trackingNumber: string,
+  carrier: string,
+) => {
+  const value = trackingNumber.replace(/[\s-]/g, "").toUpperCase();
+  if (!value) {
+    return null;
+  }
+  const carriers = Object.keys(TRACKING_CHECKS) as TrackingCarrier[];
+  const results = carriers.map((id) => ({
+    id,
+    check: TRACKING_CHECKS[id](value),
+  }));
+  const expected = detectCarrier(carrier);
+
+  if (expected) {
+    const label = CARRIER_LABELS[expected];
+    const result = results.find((item) => item.id === expected)?.check;
+    if (result === "valid") {
+      return null;
+    }
+    if (result === "check_digit") {
+      return `The ${label} tracking number fails its check digit. Look for a typo.`;
+    }
+    const other = results.find((item) => item.check === "valid");
+    return other
+      ? `This looks like a ${CARRIER_LABELS[other.id]} tracking number, not ${label}.`
+      : `This does not match a ${label} tracking number format.`;
+  }
+
+  if (results.some((item) => item.check === "valid")) {
+    return null;
+  }
+  if (results.some((item) => item.check === "check_digit")) {
+    return "The tracking number fails its carrier check digit. Look for a typo.";
+  }
+  return /^[A-Z0-9]{8,40}$/.test(value)
+    ? null
+    : "Tracking numbers contain 8 to 40 letters and digits.";
+};
@@ -20,7 +20,7 @@ export default function Home() {
           </div>
           <div className="flex flex-wrap gap-4">
             <Link
-              to="/app"
+              to="/app/cases"
               className="rounded-full bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-soft"
             >
               Generate Evidence Packet